@@ -6,6 +6,7 @@ interface DetectedBarcode {
     boundingBox: DOMRectReadOnly;
     rawValue: string;
     format: string;
+    cornerPoints: { x: number; y: number }[];
 }
 
 declare class BarcodeDetector {
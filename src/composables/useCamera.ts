@@ -0,0 +1,339 @@
+import {computed, onScopeDispose, ref, shallowRef, toValue, watch} from 'vue'
+import type {MaybeRefOrGetter, Ref} from 'vue'
+import type {CameraConfig, CameraDevice} from '@/types'
+import {CameraError, toCameraError} from '@/utils/errors'
+import {useCameraControls} from '@/composables/useCameraControls'
+
+/**
+ * Headless camera controller. Owns the media stream, device discovery,
+ * camera switching and track controls, and attaches the stream to the given video element.
+ * @param videoRef Video element the stream is rendered into
+ * @param config Camera configuration (facing mode, resolution, frame rate)
+ */
+export function useCamera(
+    videoRef: Ref<HTMLVideoElement | null>,
+    config: MaybeRefOrGetter<CameraConfig>
+) {
+  const devices = ref<MediaDeviceInfo[]>([])
+  const cameras = ref<CameraDevice[]>([])
+  const currentCameraIndex = ref(0)
+  const currentCamera = computed<CameraDevice | null>(() => cameras.value[currentCameraIndex.value] ?? null)
+
+  const stream = shallowRef<MediaStream | null>(null)
+  const isActive = computed(() => stream.value !== null)
+  const isReady = ref(false)
+  const error = ref<CameraError | null>(null)
+
+  // Zoom, torch, focus, exposure and white balance of the active track
+  const controls = useCameraControls(stream)
+
+  // Device labels are only exposed once camera permission has been granted
+  let permissionGranted = false
+
+  const loadDevices = async () => {
+    // Get list of available video devices
+    const allDevices = await navigator.mediaDevices.enumerateDevices();
+    devices.value = allDevices.filter(device => device.kind === 'videoinput');
+
+    // Process and categorize all cameras
+    const camerasList: CameraDevice[] = [];
+
+    for (let i = 0; i < devices.value.length; i++) {
+      const device = devices.value[i];
+      let facingMode: string | undefined;
+      let isMainCamera = false;
+      let capabilities: any = null;
+      let resolution = 0;
+
+      const labelLower = device.label.toLowerCase();
+
+      // Try to get camera capabilities if supported
+      if ('getCapabilities' in device) {
+        try {
+          capabilities = (device as MediaDeviceInfo & {
+            getCapabilities(): MediaTrackCapabilities
+          }).getCapabilities();
+
+          // Determine facingMode from capabilities
+          if (capabilities && capabilities.facingMode) {
+            if (capabilities.facingMode.includes('user')) {
+              facingMode = 'user';
+            } else if (capabilities.facingMode.includes('environment')) {
+              facingMode = 'environment';
+
+              // Check if it's likely the main camera based on label
+              isMainCamera = labelLower.includes('main') ||
+                  labelLower.includes('wide') ||
+                  labelLower.includes('0') ||
+                  (!labelLower.includes('ultra') &&
+                      !labelLower.includes('tele') &&
+                      !labelLower.includes('zoom'));
+            }
+          }
+
+          // Get max resolution if available
+          resolution = capabilities?.width?.max || 0;
+        } catch (capabilitiesError) {
+          console.warn('Error getting capabilities:', capabilitiesError);
+        }
+      }
+
+      // Fallback to label detection if facingMode not detected by capabilities
+      if (!facingMode) {
+        if (labelLower.includes('front') || labelLower.includes('user') || labelLower.includes('selfie')) {
+          facingMode = 'user';
+        } else if (labelLower.includes('back') || labelLower.includes('rear') || labelLower.includes('environment')) {
+          facingMode = 'environment';
+          isMainCamera = labelLower.includes('main') || labelLower.includes('wide') ||
+              labelLower.includes('0') ||
+              (!labelLower.includes('ultra') && !labelLower.includes('tele') && !labelLower.includes('zoom'));
+        }
+      }
+
+      camerasList.push({
+        index: i,
+        device,
+        facingMode,
+        isMainCamera,
+        capabilities,
+        resolution
+      });
+    }
+
+    const {cameraFacingMode, preferredFacing} = toValue(config);
+
+    // Filter cameras based on the cameraFacingMode config
+    const filteredCameras = !cameraFacingMode || cameraFacingMode === 'all'
+        ? camerasList
+        : camerasList.filter(cam => cam.facingMode === cameraFacingMode);
+
+    // Sort cameras based on preferredFacing if specified
+    if (preferredFacing) {
+      filteredCameras.sort((a, b) => {
+        // First prioritize cameras matching the preferred facing
+        if (a.facingMode === preferredFacing && b.facingMode !== preferredFacing) return -1;
+        if (a.facingMode !== preferredFacing && b.facingMode === preferredFacing) return 1;
+
+        // For environment cameras, prioritize main cameras
+        if (a.facingMode === 'environment' && b.facingMode === 'environment') {
+          if (a.isMainCamera && !b.isMainCamera) return -1;
+          if (!a.isMainCamera && b.isMainCamera) return 1;
+
+          // Then prioritize by resolution
+          return (b.resolution || 0) - (a.resolution || 0);
+        }
+
+        return 0;
+      });
+    } else {
+      // Default sorting: prioritize environment cameras, then main cameras, then resolution
+      filteredCameras.sort((a, b) => {
+        // Prioritize environment cameras
+        if (a.facingMode === 'environment' && b.facingMode !== 'environment') return -1;
+        if (a.facingMode !== 'environment' && b.facingMode === 'environment') return 1;
+
+        // For environment cameras, prioritize main cameras
+        if (a.facingMode === 'environment' && b.facingMode === 'environment') {
+          if (a.isMainCamera && !b.isMainCamera) return -1;
+          if (!a.isMainCamera && b.isMainCamera) return 1;
+        }
+
+        // Then sort by resolution
+        return (b.resolution || 0) - (a.resolution || 0);
+      });
+    }
+
+    cameras.value = filteredCameras;
+    if (currentCameraIndex.value >= filteredCameras.length) {
+      currentCameraIndex.value = 0;
+    }
+    console.log('Available cameras:', cameras.value);
+  };
+
+  const buildConstraints = (deviceId?: string): MediaStreamConstraints => {
+    const {resolution, frameRate} = toValue(config);
+
+    const video: MediaTrackConstraints = {
+      deviceId: deviceId ? {exact: deviceId} : undefined,
+      // Use config resolution if provided, otherwise default to 4K
+      width: resolution?.width ? {ideal: resolution.width} : {ideal: 4096},
+      height: resolution?.height ? {ideal: resolution.height} : {ideal: 2160},
+      aspectRatio: resolution?.aspectRatio ? {ideal: resolution.aspectRatio} : undefined,
+    };
+
+    // Also respect frameRate settings if provided
+    if (frameRate) {
+      video.frameRate = {
+        ideal: frameRate.ideal,
+        min: frameRate.min,
+        max: frameRate.max,
+      };
+    }
+
+    return {video, audio: false};
+  };
+
+  const attachStream = (video: HTMLVideoElement | null) => {
+    if (!video || video.srcObject === stream.value) return;
+    video.srcObject = stream.value;
+    if (stream.value) {
+      video.play().catch((err) => console.warn('Video playback failed:', err));
+    }
+  };
+
+  /**
+   * Resolves once the video element has rendered its first frame or the stream is stopped
+   */
+  const waitUntilReady = (): Promise<void> => {
+    return new Promise<void>((resolve) => {
+      const checkVideoReady = () => {
+        const video = videoRef.value;
+        if (video &&
+            video.readyState >= 2 &&
+            video.videoWidth > 0 &&
+            video.videoHeight > 0) {
+          resolve();
+        } else if (!stream.value) {
+          // Stream was stopped while waiting
+          resolve();
+        } else {
+          requestAnimationFrame(checkVideoReady);
+        }
+      };
+      checkVideoReady();
+    });
+  };
+
+  /**
+   * Stops all tracks of the active stream
+   */
+  const stop = () => {
+    stream.value?.getTracks().forEach((track) => track.stop());
+    stream.value = null;
+    isReady.value = false;
+    if (videoRef.value) {
+      videoRef.value.srcObject = null;
+    }
+  };
+
+  /**
+   * Starts the camera stream
+   * @param deviceId Device to open, defaults to the current (best ranked) camera
+   */
+  const start = async (deviceId?: string) => {
+    error.value = null;
+    try {
+      if (!permissionGranted) {
+        // First, request basic camera access with minimal constraints so device labels become available
+        const initialStream = await navigator.mediaDevices.getUserMedia({video: true, audio: false});
+        initialStream.getTracks().forEach((track) => track.stop());
+        permissionGranted = true;
+
+        await loadDevices();
+      }
+
+      stop();
+
+      if (deviceId) {
+        const index = cameras.value.findIndex(cam => cam.device.deviceId === deviceId);
+        if (index >= 0) currentCameraIndex.value = index;
+      }
+
+      console.log('Starting camera:', deviceId ?? currentCamera.value?.device.deviceId);
+      stream.value = await navigator.mediaDevices.getUserMedia(
+          buildConstraints(deviceId ?? currentCamera.value?.device.deviceId)
+      );
+      attachStream(videoRef.value);
+
+      await waitUntilReady();
+      isReady.value = stream.value !== null;
+    } catch (err) {
+      console.error('Camera access failed:', err);
+      stop();
+      error.value = toCameraError(err, 'device-not-found');
+      throw error.value;
+    }
+  };
+
+  /**
+   * Cycles to the next available camera
+   */
+  const switchCamera = async () => {
+    if (cameras.value.length <= 1) return;
+
+    // Move to next camera
+    currentCameraIndex.value = (currentCameraIndex.value + 1) % cameras.value.length;
+    const nextDeviceId = cameras.value[currentCameraIndex.value].device.deviceId;
+
+    console.log('Switching to camera:', nextDeviceId);
+
+    await start(nextDeviceId);
+  };
+
+  /**
+   * Draws the current video frame onto a canvas
+   * @param canvas Target canvas, a new one is created when omitted
+   * @returns The canvas holding the frame at the native video resolution
+   */
+  const capture = (canvas: HTMLCanvasElement = document.createElement('canvas')): HTMLCanvasElement => {
+    const video = videoRef.value;
+    if (!video || !isReady.value) throw new Error("Camera not accessible: Video is not ready");
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Camera not accessible: Canvas context not found");
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx.drawImage(video, 0, 0);
+
+    return canvas;
+  };
+
+  // Attach the stream when the video element is (re)mounted
+  watch(videoRef, attachStream);
+
+  // Re-rank devices when the facing preferences change, restarting an active stream
+  watch(
+      () => {
+        const {cameraFacingMode, preferredFacing} = toValue(config);
+        return `${cameraFacingMode}|${preferredFacing}`;
+      },
+      async () => {
+        if (!permissionGranted) return;
+
+        console.log('Camera configuration changed, reloading devices');
+        const wasActive = isActive.value;
+        stop();
+
+        // Reset camera index to ensure we start with the most appropriate camera
+        currentCameraIndex.value = 0;
+        await loadDevices();
+
+        if (wasActive) {
+          await start().catch(() => undefined);
+        }
+      }
+  );
+
+  onScopeDispose(stop);
+
+  return {
+    devices,
+    cameras,
+    currentCameraIndex,
+    currentCamera,
+    stream,
+    isActive,
+    isReady,
+    error,
+    controls,
+    loadDevices,
+    start,
+    stop,
+    switchCamera,
+    capture,
+    waitUntilReady,
+  };
+}
+
+export type UseCameraReturn = ReturnType<typeof useCamera>
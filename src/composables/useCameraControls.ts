@@ -0,0 +1,190 @@
+import {ref, shallowRef, watch} from 'vue'
+import type {Ref} from 'vue'
+import type {CameraCapabilities, CameraControlSettings, NumericRange, Point} from '@/types'
+import {toCameraError} from '@/utils/errors'
+
+// Image Capture extensions of the track constraints, not part of the TypeScript DOM library
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  zoom?: NumericRange
+  torch?: boolean
+  focusMode?: string[]
+  exposureMode?: string[]
+  exposureCompensation?: NumericRange
+  whiteBalanceMode?: string[]
+}
+
+interface ExtendedSettings extends MediaTrackSettings {
+  zoom?: number
+  torch?: boolean
+  exposureCompensation?: number
+  whiteBalanceMode?: string
+}
+
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  zoom?: number
+  torch?: boolean
+  focusMode?: string
+  exposureMode?: string
+  pointsOfInterest?: Point[]
+  exposureCompensation?: number
+  whiteBalanceMode?: string
+}
+
+const NO_CAPABILITIES: CameraCapabilities = {torch: false, focus: false, whiteBalanceModes: []};
+
+const isRange = (value: NumericRange | undefined): value is NumericRange =>
+    value !== undefined && typeof value.min === 'number' && typeof value.max === 'number' && value.max > value.min;
+
+const clamp = (value: number, range: NumericRange) => Math.min(range.max, Math.max(range.min, value));
+
+/**
+ * Zoom, torch, focus, exposure and white balance of the active camera track.
+ * Capabilities are read whenever the stream changes, unsupported features stay undefined or false.
+ * @param stream Active media stream
+ */
+export function useCameraControls(stream: Ref<MediaStream | null>) {
+  const capabilities = shallowRef<CameraCapabilities>(NO_CAPABILITIES)
+  const settings = ref<CameraControlSettings>({})
+
+  const getTrack = () => stream.value?.getVideoTracks()[0] ?? null;
+
+  const readSettings = (track: MediaStreamTrack) => {
+    const {zoom, torch, exposureCompensation, whiteBalanceMode} = track.getSettings() as ExtendedSettings;
+    settings.value = {zoom, torch, exposureCompensation, whiteBalanceMode};
+  };
+
+  const readCapabilities = (track: MediaStreamTrack | null) => {
+    // Firefox and older Safari versions do not implement getCapabilities
+    if (!track || typeof track.getCapabilities !== 'function') {
+      capabilities.value = NO_CAPABILITIES;
+      settings.value = {};
+      return;
+    }
+
+    const supported = track.getCapabilities() as ExtendedCapabilities;
+    const supportedConstraints = navigator.mediaDevices.getSupportedConstraints() as Record<string, boolean | undefined>;
+
+    capabilities.value = {
+      zoom: isRange(supported.zoom) ? supported.zoom : undefined,
+      torch: supported.torch === true,
+      focus: !!supportedConstraints.pointsOfInterest && (supported.focusMode?.length ?? 0) > 0,
+      exposureCompensation: isRange(supported.exposureCompensation) ? supported.exposureCompensation : undefined,
+      whiteBalanceModes: supported.whiteBalanceMode ?? [],
+    };
+    readSettings(track);
+  };
+
+  watch(stream, () => readCapabilities(getTrack()), {immediate: true});
+
+  /**
+   * Applies constraints to the active track and refreshes the settings
+   */
+  const apply = async (constraints: ExtendedConstraintSet) => {
+    const track = getTrack();
+    if (!track) throw new Error("Camera not accessible: No active video track");
+
+    try {
+      await track.applyConstraints({advanced: [constraints]} as MediaTrackConstraints);
+    } catch (err) {
+      throw toCameraError(err, 'overconstrained');
+    }
+    readSettings(track);
+  };
+
+  // Pinch gestures request zoom levels faster than the camera applies them, only the latest one is kept
+  let pendingZoom: number | null = null;
+  let zooming: Promise<void> | null = null;
+
+  /**
+   * Sets the zoom level, clamped to the supported range
+   * @param zoom Zoom factor, e.g. 2 for 2x
+   */
+  const setZoom = async (zoom: number): Promise<void> => {
+    const range = capabilities.value.zoom;
+    if (!range) return;
+
+    pendingZoom = clamp(zoom, range);
+    // Keep the slider responsive while the camera catches up
+    settings.value = {...settings.value, zoom: pendingZoom};
+    if (zooming) return zooming;
+
+    zooming = (async () => {
+      try {
+        while (pendingZoom !== null) {
+          const next = pendingZoom;
+          pendingZoom = null;
+          await apply({zoom: next});
+        }
+      } finally {
+        zooming = null;
+      }
+    })();
+    return zooming;
+  };
+
+  /**
+   * Turns the torch on or off
+   * @param on Torch state
+   */
+  const setTorch = async (on: boolean): Promise<void> => {
+    if (!capabilities.value.torch) return;
+    await apply({torch: on});
+    // Some browsers do not report the torch in getSettings
+    settings.value = {...settings.value, torch: on};
+  };
+
+  const toggleTorch = () => setTorch(!settings.value.torch);
+
+  /**
+   * Focuses on a point of the frame
+   * @param point Point of interest, normalized to 0..1 of the video frame width and height
+   */
+  const focusAt = async (point: Point): Promise<void> => {
+    if (!capabilities.value.focus) return;
+
+    const track = getTrack();
+    const supported = (track?.getCapabilities() ?? {}) as ExtendedCapabilities;
+    const constraints: ExtendedConstraintSet = {
+      pointsOfInterest: [{x: Math.min(1, Math.max(0, point.x)), y: Math.min(1, Math.max(0, point.y))}],
+    };
+    // A single-shot focus and exposure run on the new point, continuous modes keep adjusting around it
+    const focusMode = ['single-shot', 'continuous'].find((mode) => supported.focusMode?.includes(mode));
+    if (focusMode) constraints.focusMode = focusMode;
+    const exposureMode = ['single-shot', 'continuous'].find((mode) => supported.exposureMode?.includes(mode));
+    if (exposureMode) constraints.exposureMode = exposureMode;
+
+    await apply(constraints);
+  };
+
+  /**
+   * Sets the exposure compensation, clamped to the supported range
+   * @param value Compensation in EV
+   */
+  const setExposureCompensation = async (value: number): Promise<void> => {
+    const range = capabilities.value.exposureCompensation;
+    if (!range) return;
+    await apply({exposureCompensation: clamp(value, range)});
+  };
+
+  /**
+   * Sets the white balance mode
+   * @param mode One of `capabilities.whiteBalanceModes`
+   */
+  const setWhiteBalanceMode = async (mode: string): Promise<void> => {
+    if (!capabilities.value.whiteBalanceModes.includes(mode)) return;
+    await apply({whiteBalanceMode: mode});
+  };
+
+  return {
+    capabilities,
+    settings,
+    setZoom,
+    setTorch,
+    toggleTorch,
+    focusAt,
+    setExposureCompensation,
+    setWhiteBalanceMode,
+  };
+}
+
+export type UseCameraControlsReturn = ReturnType<typeof useCameraControls>
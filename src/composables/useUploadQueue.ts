@@ -0,0 +1,348 @@
+import {computed, onScopeDispose, ref, toRaw, toValue, watch} from 'vue'
+import type {MaybeRefOrGetter} from 'vue'
+import type {CapturedMedia, UploadConfig, UploadItem, UploadQueueStatus} from '@/types'
+import {UploadFailedError} from '@/utils/errors'
+import {createId, DEFAULT_DB_NAME, deleteUploadRecord, loadUploadRecords, saveUploadRecord} from '@/utils/persistence'
+import {DEFAULT_MAX_ATTEMPTS, getRetryDelay, getUploadFile, getUploadName, sendUpload} from '@/utils/upload'
+
+export interface UploadQueueEvents {
+  onProgress?: (item: UploadItem) => void  // Every progress and status change
+  onError?: (error: UploadFailedError, item: UploadItem) => void // The upload failed for good
+}
+
+/**
+ * Background upload queue. Files are sent one at a time, failed attempts are retried with exponential backoff,
+ * uploads wait while the device is offline and, unless `persist` is false, survive reloads in IndexedDB.
+ * @param config Upload configuration (endpoint, transport, chunking, retries), queued uploads wait while it is unset
+ * @param events Progress and failure callbacks
+ */
+export function useUploadQueue(
+    config: MaybeRefOrGetter<UploadConfig | null | undefined>,
+    events: UploadQueueEvents = {}
+) {
+  const items = ref<UploadItem[]>([])
+  const online = ref(typeof navigator === 'undefined' || navigator.onLine !== false)
+  const paused = ref(false)
+
+  const status = computed<UploadQueueStatus>(() => {
+    const counts = {pending: 0, uploading: 0, done: 0, failed: 0}
+    let size = 0
+    let sent = 0
+    for (const item of items.value) {
+      counts[item.status === 'retrying' ? 'pending' : item.status]++
+      size += item.size
+      sent += item.size * item.progress
+    }
+    return {
+      total: items.value.length,
+      ...counts,
+      progress: size > 0 ? sent / size : (items.value.length > 0 && counts.done === items.value.length ? 1 : 0),
+      online: online.value,
+      paused: paused.value,
+    }
+  })
+
+  // Files stay out of the reactive items
+  const files = new Map<string, Blob>()
+  const createdAt = new Map<string, number>()
+  // Captured media to the id of its upload, for gallery badges
+  const mediaIds = new WeakMap<object, string>()
+
+  let running = false
+  let active: { id: string, controller: AbortController } | null = null
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null
+  let disposed = false
+
+  const getConfig = () => toValue(config)
+  const shouldPersist = () => {
+    const uploadConfig = getConfig()
+    return !!uploadConfig && uploadConfig.persist !== false
+  }
+  const getDbName = () => getConfig()?.dbName ?? DEFAULT_DB_NAME
+
+  const findItem = (id: string) => items.value.find((item) => item.id === id)
+
+  const persist = (item: UploadItem) => {
+    const file = files.get(item.id)
+    if (!shouldPersist() || !file) return
+    const record = {...toRaw(item), metadata: toRaw(item.metadata), file, createdAt: createdAt.get(item.id) ?? Date.now()}
+    saveUploadRecord(record, getDbName()).catch((error) => console.warn('Could not store the upload:', error))
+  }
+
+  const forget = (id: string) => {
+    files.delete(id)
+    createdAt.delete(id)
+    if (!shouldPersist()) return
+    deleteUploadRecord(id, getDbName()).catch((error) => console.warn('Could not delete the stored upload:', error))
+  }
+
+  /**
+   * Queues photos and videos, media that is queued already is not added again
+   * @param media Captured photos or videos
+   * @returns The queue items, in the order of `media`
+   */
+  const enqueue = async (media: CapturedMedia[]): Promise<UploadItem[]> => {
+    const queued: UploadItem[] = []
+    for (const entry of media) {
+      const raw = toRaw(entry)
+      const existing = getItem(raw)
+      if (existing) {
+        queued.push(existing)
+        continue
+      }
+
+      const file = await getUploadFile(raw)
+      const id = createId()
+      files.set(id, file)
+      createdAt.set(id, Date.now())
+      mediaIds.set(raw, id)
+      items.value.push({
+        id,
+        name: getUploadName(raw, file.type),
+        type: file.type,
+        size: file.size,
+        status: 'pending',
+        progress: 0,
+        uploadedBytes: 0,
+        attempts: 0,
+        metadata: raw.metadata,
+      })
+      const item = items.value[items.value.length - 1]
+      persist(item)
+      events.onProgress?.(item)
+      queued.push(item)
+    }
+    process()
+    return queued
+  }
+
+  /**
+   * Returns the upload of a captured photo or video
+   * @param media Media passed to `enqueue`
+   */
+  const getItem = (media: CapturedMedia): UploadItem | undefined => {
+    const id = mediaIds.get(toRaw(media))
+    return id ? findItem(id) : undefined
+  }
+
+  const nextItem = () => {
+    const now = Date.now()
+    return items.value.find((item) => item.status === 'pending'
+        || (item.status === 'retrying' && (item.nextAttemptAt ?? 0) <= now))
+  }
+
+  // Sleeps until the earliest retry is due
+  const scheduleWake = () => {
+    if (wakeTimer) clearTimeout(wakeTimer)
+    wakeTimer = null
+    if (disposed) return
+
+    const due = items.value
+        .filter((item) => item.status === 'retrying')
+        .map((item) => item.nextAttemptAt ?? 0)
+    if (due.length === 0) return
+    wakeTimer = setTimeout(process, Math.max(0, Math.min(...due) - Date.now()))
+  }
+
+  const process = async () => {
+    if (running || disposed) return
+    running = true
+    try {
+      let item: UploadItem | undefined
+      let uploadConfig: UploadConfig | null | undefined
+      while (!paused.value && online.value && !disposed && (uploadConfig = getConfig()) && (item = nextItem())) {
+        await upload(item, uploadConfig)
+      }
+    } finally {
+      running = false
+      scheduleWake()
+    }
+  }
+
+  const upload = async (item: UploadItem, uploadConfig: UploadConfig) => {
+    const file = files.get(item.id)
+    if (!file) {
+      item.status = 'failed'
+      item.error = 'The file is no longer available.'
+      return
+    }
+
+    const controller = new AbortController()
+    active = {id: item.id, controller}
+    item.status = 'uploading'
+    item.attempts++
+    item.error = undefined
+    item.nextAttemptAt = undefined
+    events.onProgress?.(item)
+
+    try {
+      const response = await sendUpload(item, file, uploadConfig, controller.signal, (bytes, confirmed) => {
+        if (confirmed) {
+          item.uploadedBytes = bytes
+          persist(item)
+        }
+        item.progress = item.size > 0 ? Math.min(1, bytes / item.size) : 0
+        events.onProgress?.(item)
+      })
+
+      item.status = 'done'
+      item.progress = 1
+      item.uploadedBytes = item.size
+      item.response = response.body
+      forget(item.id)
+      events.onProgress?.(item)
+    } catch (error) {
+      // Paused, removed or disposed, the attempt does not count
+      if (controller.signal.aborted || !online.value) {
+        item.attempts--
+        item.status = 'pending'
+        item.progress = item.size > 0 ? item.uploadedBytes / item.size : 0
+        persist(item)
+        if (!disposed) events.onProgress?.(item)
+        return
+      }
+
+      const uploadError = error instanceof UploadFailedError
+          ? error
+          : new UploadFailedError(error instanceof Error ? error.message : undefined, error)
+      const retry = uploadConfig.retry ?? {}
+      const maxAttempts = retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+
+      item.error = uploadError.message
+      item.progress = item.size > 0 ? item.uploadedBytes / item.size : 0
+      if (uploadError.retryable && (maxAttempts === 0 || item.attempts < maxAttempts)) {
+        item.status = 'retrying'
+        item.nextAttemptAt = Date.now() + getRetryDelay(item.attempts, retry)
+        persist(item)
+        events.onProgress?.(item)
+      } else {
+        item.status = 'failed'
+        persist(item)
+        events.onProgress?.(item)
+        events.onError?.(uploadError, item)
+      }
+    } finally {
+      active = null
+    }
+  }
+
+  /**
+   * Retries failed uploads right away, waiting ones skip their backoff delay
+   * @param id Upload to retry (default: every failed or waiting upload)
+   */
+  const retry = (id?: string) => {
+    for (const item of items.value) {
+      if (id !== undefined && item.id !== id) continue
+      if (item.status !== 'failed' && item.status !== 'retrying') continue
+      if (item.status === 'failed') item.attempts = 0
+      item.status = 'pending'
+      item.nextAttemptAt = undefined
+      persist(item)
+      events.onProgress?.(item)
+    }
+    process()
+  }
+
+  /**
+   * Removes an upload from the queue, a running request is aborted
+   * @param id Upload id
+   */
+  const remove = (id: string) => {
+    if (active?.id === id) active.controller.abort()
+    items.value = items.value.filter((item) => item.id !== id)
+    forget(id)
+  }
+
+  /**
+   * Removes the finished uploads
+   */
+  const clearCompleted = () => {
+    items.value = items.value.filter((item) => item.status !== 'done')
+  }
+
+  /**
+   * Stops sending, a running request is aborted and restarted on resume
+   */
+  const pause = () => {
+    paused.value = true
+    active?.controller.abort()
+  }
+
+  const resume = () => {
+    paused.value = false
+    process()
+  }
+
+  /**
+   * Restores the uploads left over from earlier visits
+   */
+  const restore = async () => {
+    if (!shouldPersist()) return
+    try {
+      const records = await loadUploadRecords(getDbName())
+      if (disposed) return
+      for (const {file, createdAt: queuedAt, ...record} of records) {
+        if (findItem(record.id)) continue
+        files.set(record.id, file)
+        createdAt.set(record.id, queuedAt)
+        items.value.push({
+          ...record,
+          // Uploads interrupted by the reload start over
+          status: record.status === 'failed' ? 'failed' : 'pending',
+          progress: record.size > 0 ? record.uploadedBytes / record.size : 0,
+          nextAttemptAt: undefined,
+        })
+      }
+      process()
+    } catch (error) {
+      console.warn('Could not restore the upload queue:', error)
+    }
+  }
+
+  const onOnline = () => {
+    online.value = true
+    process()
+  }
+  const onOffline = () => {
+    online.value = false
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+  }
+  // Stored uploads are restored, and queued ones sent, once there is a configuration
+  let restored = false
+  watch(() => !!toValue(config), (configured) => {
+    if (!configured) return
+    if (!restored) {
+      restored = true
+      restore()
+    }
+    process()
+  }, {immediate: true})
+
+  onScopeDispose(() => {
+    disposed = true
+    if (wakeTimer) clearTimeout(wakeTimer)
+    active?.controller.abort()
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+    }
+  })
+
+  return {
+    items,
+    status,
+    enqueue,
+    getItem,
+    retry,
+    remove,
+    clearCompleted,
+    pause,
+    resume,
+  }
+}
+
+export type UseUploadQueueReturn = ReturnType<typeof useUploadQueue>
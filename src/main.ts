@@ -1,7 +1,236 @@
 import CameraView from './components/CameraView.vue';
-import type {CameraConfig, CapturedPhoto, CameraViewConfig, CameraMode} from './types';
+import {useCamera} from './composables/useCamera';
+import type {UseCameraReturn} from './composables/useCamera';
+import {useCameraControls} from './composables/useCameraControls';
+import type {UseCameraControlsReturn} from './composables/useCameraControls';
+import {useUploadQueue} from './composables/useUploadQueue';
+import type {UseUploadQueueReturn, UploadQueueEvents} from './composables/useUploadQueue';
+import {
+    CameraError,
+    PermissionDeniedError,
+    DeviceNotFoundError,
+    OverconstrainedCameraError,
+    GeolocationFailedError,
+    OutsideGeofenceError,
+    ScanTimeoutError,
+    ProcessingFailedError,
+    UploadFailedError,
+    toCameraError,
+    alertErrorHandler,
+} from './utils/errors';
+import type {CameraErrorCode} from './utils/errors';
+import {parseBarcode} from './utils/barcode-parser';
+import {releasePhoto} from './utils/photo';
+import {getSupportedVideoType, isCapturedVideo} from './utils/video';
+import {getSupportedImageTypes, isEncoderSupported} from './utils/encoder';
+import {embedPhotoMetadata, readPhotoMetadata} from './utils/exif';
+import {measureSharpness} from './utils/image';
+import {formatDate, registerPlaceholder, unregisterPlaceholder} from './utils/placeholders';
+import {checkGeofence, getDistance} from './utils/geofence';
+import {detectDocument, warpPerspective, applyDocumentFilters} from './utils/document';
+import {exportPdf, exportZip} from './utils/export';
+import {editPhoto, applyPhotoEdits} from './utils/editor';
+import {listDraftSessions, loadDraftSession, deleteDraftSession, purgeDraftSessions} from './utils/persistence';
+import {xhrTransport} from './utils/upload';
+import {getThemeStyle} from './utils/theme';
+import type {
+    CameraConfig,
+    CapturedPhoto,
+    CapturedVideo,
+    CapturedMedia,
+    VideoConfig,
+    PhotoMetadata,
+    CameraViewConfig,
+    CameraMode,
+    CameraDevice,
+    CameraControlsConfig,
+    CameraCapabilities,
+    CameraControlSettings,
+    NumericRange,
+    CaptureConfig,
+    BurstConfig,
+    BurstInfo,
+    ImageConfig,
+    ImageType,
+    ThumbnailConfig,
+    WatermarkLayer,
+    WatermarkConfig,
+    ImageWatermarkConfig,
+    QrWatermarkConfig,
+    Coordinate,
+    Address,
+    GeolocationConfig,
+    ReverseGeocodeHook,
+    GeoPoint,
+    GeofenceConfig,
+    CircleGeofence,
+    PolygonGeofence,
+    GeofencePolicy,
+    GeofenceResult,
+    DocumentConfig,
+    Point,
+    EditorConfig,
+    EditorTool,
+    EditRect,
+    PhotoEdit,
+    CropEdit,
+    RotateEdit,
+    AnnotationEdit,
+    RedactionEdit,
+    GalleryChange,
+    PdfExportConfig,
+    PdfPageSize,
+    ZipExportConfig,
+    PersistenceConfig,
+    DraftSession,
+    UploadConfig,
+    RetryConfig,
+    UploadRequest,
+    UploadResponse,
+    UploadTransport,
+    UploadStatus,
+    UploadItem,
+    UploadQueueStatus,
+    ThemeMode,
+    ThemeColors,
+    ThemeConfig,
+    CameraSlotProps,
+    CaptionModalSlotProps,
+    GalleryHeaderSlotProps,
+    GalleryItemSlotProps,
+    EmptyStateSlotProps,
+    ExportManifest,
+    ExportManifestItem,
+    CustomFields,
+    CustomFieldValue,
+    PlaceholderFormatter,
+    PlaceholderOptions,
+    BarcodeResult,
+    ParsedBarcode,
+    GS1Payload,
+    UrlPayload,
+    WifiPayload,
+    ContactPayload,
+    EmvcoPayload,
+    TextPayload,
+} from './types';
 
 import './assets/style.css';
 
 export {CameraView};      // Named export
-export type {CameraConfig, CapturedPhoto, CameraViewConfig, CameraMode};
\ No newline at end of file
+export {useCamera};
+export {useCameraControls};
+export {useUploadQueue};
+export {
+    CameraError,
+    PermissionDeniedError,
+    DeviceNotFoundError,
+    OverconstrainedCameraError,
+    GeolocationFailedError,
+    OutsideGeofenceError,
+    ScanTimeoutError,
+    ProcessingFailedError,
+    UploadFailedError,
+    toCameraError,
+    alertErrorHandler,
+};
+export {parseBarcode};
+export {releasePhoto};
+export {getSupportedVideoType, isCapturedVideo};
+export {getSupportedImageTypes, isEncoderSupported};
+export {embedPhotoMetadata, readPhotoMetadata};
+export {measureSharpness};
+export {formatDate, registerPlaceholder, unregisterPlaceholder};
+export {checkGeofence, getDistance};
+export {detectDocument, warpPerspective, applyDocumentFilters};
+export {exportPdf, exportZip};
+export {editPhoto, applyPhotoEdits};
+export {listDraftSessions, loadDraftSession, deleteDraftSession, purgeDraftSessions};
+export {xhrTransport};
+export {getThemeStyle};
+export type {
+    CameraConfig,
+    CapturedPhoto,
+    CapturedVideo,
+    CapturedMedia,
+    VideoConfig,
+    PhotoMetadata,
+    CameraViewConfig,
+    CameraMode,
+    CameraDevice,
+    CameraControlsConfig,
+    CameraCapabilities,
+    CameraControlSettings,
+    NumericRange,
+    CaptureConfig,
+    BurstConfig,
+    BurstInfo,
+    ImageConfig,
+    ImageType,
+    ThumbnailConfig,
+    WatermarkLayer,
+    WatermarkConfig,
+    ImageWatermarkConfig,
+    QrWatermarkConfig,
+    Coordinate,
+    Address,
+    GeolocationConfig,
+    ReverseGeocodeHook,
+    GeoPoint,
+    GeofenceConfig,
+    CircleGeofence,
+    PolygonGeofence,
+    GeofencePolicy,
+    GeofenceResult,
+    DocumentConfig,
+    Point,
+    EditorConfig,
+    EditorTool,
+    EditRect,
+    PhotoEdit,
+    CropEdit,
+    RotateEdit,
+    AnnotationEdit,
+    RedactionEdit,
+    GalleryChange,
+    PdfExportConfig,
+    PdfPageSize,
+    ZipExportConfig,
+    PersistenceConfig,
+    DraftSession,
+    UploadConfig,
+    RetryConfig,
+    UploadRequest,
+    UploadResponse,
+    UploadTransport,
+    UploadStatus,
+    UploadItem,
+    UploadQueueStatus,
+    ThemeMode,
+    ThemeColors,
+    ThemeConfig,
+    CameraSlotProps,
+    CaptionModalSlotProps,
+    GalleryHeaderSlotProps,
+    GalleryItemSlotProps,
+    EmptyStateSlotProps,
+    ExportManifest,
+    ExportManifestItem,
+    CustomFields,
+    CustomFieldValue,
+    PlaceholderFormatter,
+    PlaceholderOptions,
+    BarcodeResult,
+    ParsedBarcode,
+    GS1Payload,
+    UrlPayload,
+    WifiPayload,
+    ContactPayload,
+    EmvcoPayload,
+    TextPayload,
+    UseCameraReturn,
+    UseCameraControlsReturn,
+    UseUploadQueueReturn,
+    UploadQueueEvents,
+    CameraErrorCode,
+};
@@ -1,6 +1,6 @@
 // ========== Core Camera Types ==========
 
-export const CAMERA_MODES = ['single-photo', 'multiple-photos', 'barcode'] as const
+export const CAMERA_MODES = ['single-photo', 'multiple-photos', 'barcode', 'continuous-barcode', 'video', 'document'] as const
 export type CameraMode = typeof CAMERA_MODES[number]
 
 export interface CameraConfig {
@@ -17,38 +17,193 @@ export interface CameraConfig {
         min?: number
         max?: number
     }
+    controls?: CameraControlsConfig | false // On-screen controls, unsupported ones are hidden (default: all), false hides them all
+    capture?: CaptureConfig // Self-timer and burst buttons
+}
+
+export interface CameraDevice {
+    index: number
+    device: MediaDeviceInfo
+    facingMode?: string
+    isMainCamera?: boolean
+    capabilities?: any
+    resolution?: number
 }
 
 export interface CameraViewConfig {
     cameraConfig: CameraConfig
     imageConfig?: ImageConfig
+    videoConfig?: VideoConfig // Only used in 'video' mode
     extra: ExtraConfig
 }
 
 export interface ExtraConfig {
-    geolocation?: PositionOptions
+    geolocation?: GeolocationConfig
+    geofence?: GeofenceConfig // Checks every photo position against an area, enables geolocation when it is not configured
     gallery?: GalleryConfig
+    persistence?: PersistenceConfig | boolean // Keep captured photos in IndexedDB until open() resolves ('multiple-photos' and 'document')
+    upload?: UploadConfig   // Upload photos and videos through a retrying background queue
     scanner?: ScannerConfig
+    document?: DocumentConfig // Only used in 'document' mode
     caption?: CaptionConfig
+    customFields?: CustomFields | (() => CustomFields | Promise<CustomFields>) // Attached to every photo as `metadata.customFields`
+    alertOnError?: boolean  // Report errors through window.alert in addition to the `error` event
+    fileFallback?: boolean  // Offer picking or dropping an image file when the camera is unavailable (default true)
+    theme?: ThemeConfig     // Colors, radii and font of the camera UI (default: dark)
+}
+
+// ========== Camera Control Types ==========
+
+export interface CameraControlsConfig {
+    zoom?: boolean          // Zoom slider and pinch to zoom (default true)
+    torch?: boolean         // Torch toggle (default true)
+    focus?: boolean         // Tap to focus (default true)
+    exposure?: boolean      // Exposure compensation slider (default true)
+    whiteBalance?: boolean  // White balance mode picker (default true)
+}
+
+export interface NumericRange {
+    min: number
+    max: number
+    step: number
+}
+
+// What the active camera track supports, empty while no camera is running
+export interface CameraCapabilities {
+    zoom?: NumericRange
+    torch: boolean
+    focus: boolean          // Focusing on a point of interest
+    exposureCompensation?: NumericRange // EV
+    whiteBalanceModes: string[] // e.g. 'continuous', 'single-shot', 'manual'
+}
+
+export interface CameraControlSettings {
+    zoom?: number
+    torch?: boolean
+    exposureCompensation?: number // EV
+    whiteBalanceMode?: string
+}
+
+// ========== Capture Types ==========
+
+export interface CaptureConfig {
+    timer?: number[]        // Self-timer delays in s the timer button cycles through, e.g. [3, 10] ('single-photo' and 'multiple-photos')
+    burst?: BurstConfig | boolean // Burst button ('multiple-photos' only)
+}
+
+export interface BurstConfig {
+    count?: number          // Frames per burst, limited to the free places below `gallery.maxPhotos` (default 5)
+    interval?: number       // ms between frames (default 200)
+    pickSharpest?: boolean  // Keep only the frame with the highest Laplacian variance (default false)
+}
+
+export interface BurstInfo {
+    index: number           // 0-based frame within the burst
+    count: number           // Frames taken in the burst
+    sharpness?: number      // Laplacian variance, only with `pickSharpest`
 }
 
 // ========== Photo & Metadata Types ==========
 
 export interface CapturedPhoto {
-    src: string             // Full-size base64 image
+    src: string             // Full-size image: base64 data URL, or object URL when `ImageConfig.output` is 'blob'
+    file?: File             // Encoded image, only when `ImageConfig.output` is 'blob'
+    thumbnail?: string      // Small JPEG preview for galleries (data URL or object URL, matching `src`)
+    original?: {            // Unedited image, only after `editPhoto`; edits are always replayed on it
+        src: string
+        file?: File
+    }
     metadata: PhotoMetadata
 }
 
+export interface CapturedVideo {
+    src: string             // Object URL of the recording
+    file: File              // Recorded video, e.g. video/webm or video/mp4
+    poster?: string         // JPEG data URL of the first frame
+    duration: number        // ms, pauses excluded
+    metadata: PhotoMetadata // Timestamp, position and device from the start of the recording
+}
+
+export type CapturedMedia = CapturedPhoto | CapturedVideo
+
 export interface PhotoMetadata {
     timestamp: string
     coordinate?: Coordinate
-    barcode?: string        // Barcode value
+    barcode?: string        // Barcode value (first detected code)
+    barcodes?: BarcodeResult[] // Every code detected in the frame
     caption?: string
+    source?: 'camera' | 'file' // Where the image came from
+    device?: string         // Label of the camera track, written as EXIF Model
+    make?: string           // Camera maker taken from the track label, written as EXIF Make
+    address?: Address       // From `GeolocationConfig.reverseGeocode`
+    geofence?: GeofenceResult // Only when `ExtraConfig.geofence` is set and a position was available
+    documentCorners?: Point[] // Detected page corners in the original frame, clockwise from top-left (document mode)
+    burst?: BurstInfo       // Only for photos taken in a burst
+    edits?: PhotoEdit[]     // Edits made in the photo editor, in the order they were applied
+    customFields?: CustomFields // App-specific values, available as {{name}} watermark placeholders
 }
 
+export type CustomFieldValue = string | number | boolean | Date | null | undefined
+export type CustomFields = Record<string, CustomFieldValue>
+
 export interface Coordinate {
     latitude?: number
     longitude?: number
+    accuracy?: number       // m, 95% confidence radius of latitude/longitude
+    altitude?: number       // m above the WGS84 ellipsoid (when the device reports it)
+    altitudeAccuracy?: number // m
+    heading?: number        // Degrees clockwise from true north (only while moving)
+    speed?: number          // m/s
+    timestamp?: string      // ISO time of the fix, may be older than the photo
+}
+
+export interface Address {
+    formatted: string       // Single-line address, rendered by {{address}}
+    street?: string
+    city?: string
+    region?: string
+    postalCode?: string
+    country?: string
+    countryCode?: string
+}
+
+export type ReverseGeocodeHook = (coordinate: Coordinate) =>
+    Address | string | undefined | null | Promise<Address | string | undefined | null>
+
+export interface GeolocationConfig extends PositionOptions {
+    minAccuracy?: number    // m, fixes less accurate than this are rejected
+    waitForAccuracy?: number // ms to wait for a fix meeting minAccuracy before giving up (default 0 = no waiting)
+    watch?: boolean         // Keep watching the position while the camera is open, so fixes are ready instantly (default true)
+    required?: boolean      // Refuse to capture without a position (default false: capture without coordinate)
+    reverseGeocode?: ReverseGeocodeHook // Resolves the address stored in `metadata.address`
+}
+
+// ========== Geofence Types ==========
+
+export interface GeoPoint {
+    latitude: number
+    longitude: number
+}
+
+// block: refuse the photo, warn: keep it and emit an outside-geofence error, tag: only record the result
+export type GeofencePolicy = 'block' | 'warn' | 'tag'
+
+export interface CircleGeofence {
+    center: GeoPoint
+    radius: number          // m
+    policy?: GeofencePolicy // (default 'warn')
+}
+
+export interface PolygonGeofence {
+    polygon: GeoPoint[]     // Vertices in order, the polygon is closed automatically
+    policy?: GeofencePolicy // (default 'warn')
+}
+
+export type GeofenceConfig = CircleGeofence | PolygonGeofence
+
+export interface GeofenceResult {
+    inside: boolean
+    distanceMeters: number  // m from the fence boundary, 0 when inside
 }
 
 // ========== Gallery Types ==========
@@ -57,6 +212,22 @@ export interface GalleryConfig {
     maxPhotos?: number
     maxSelected?: number
     preview?: boolean
+    editor?: EditorConfig | boolean // Edit button in the preview (default true)
+}
+
+export interface PersistenceConfig {
+    sessionId?: string      // Draft session to store photos under, e.g. an inspection id (default: the latest draft or a new id)
+    resume?: boolean        // Restore the latest draft when no sessionId is given (default true)
+    maxAge?: number         // ms, older drafts are deleted when the camera opens (default: kept until resolved or purged)
+    dbName?: string         // IndexedDB database name (default 'vue-camera-utility')
+}
+
+export interface DraftSession {
+    id: string
+    cameraMode: CameraMode
+    createdAt: string       // ISO timestamp
+    updatedAt: string       // ISO timestamp of the last saved photo
+    photoCount: number
 }
 
 export interface CaptionConfig {
@@ -65,20 +236,321 @@ export interface CaptionConfig {
     optional?: boolean
 }
 
+// Emitted as `gallery-change` after the gallery photos changed, `index` is the position after the change
+export type GalleryChange =
+    | { type: 'delete', photo: CapturedPhoto, index: number } // Position before the photo was removed
+    | { type: 'retake', photo: CapturedPhoto, previous: CapturedPhoto, index: number }
+    | { type: 'reorder', photo: CapturedPhoto, from: number, index: number }
+    | { type: 'caption', photo: CapturedPhoto, previous: CapturedPhoto, index: number }
+    | { type: 'edit', photo: CapturedPhoto, previous: CapturedPhoto, index: number }
+
+// ========== Editor Types ==========
+
+export type EditorTool = 'crop' | 'rotate' | 'arrow' | 'box' | 'freehand' | 'blur' | 'pixelate'
+
+export interface EditorConfig {
+    tools?: EditorTool[]    // Tools in toolbar order (default: all)
+    colors?: string[]       // Annotation colors, the first one is selected (default red, yellow, green, blue, white, black)
+    strokeWidth?: number    // Annotation line width as a fraction of the shorter image side (default 0.008)
+}
+
+// Rectangles and points are fractions (0..1) of the image produced by the edits before them
+export interface EditRect {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export interface CropEdit extends EditRect {
+    type: 'crop'
+}
+
+export interface RotateEdit {
+    type: 'rotate'
+    angle: 90 | 180 | 270   // Clockwise
+}
+
+export interface AnnotationEdit {
+    type: 'arrow' | 'box' | 'freehand'
+    points: Point[]         // Start and end for arrows and boxes, the whole path for freehand
+    color: string           // CSS color
+    width: number           // Line width as a fraction of the shorter image side
+}
+
+export interface RedactionEdit extends EditRect {
+    type: 'blur' | 'pixelate'
+    size?: number           // Blur radius or pixel cell as a fraction of the shorter image side (default 0.02)
+}
+
+export type PhotoEdit = CropEdit | RotateEdit | AnnotationEdit | RedactionEdit
+
 // ========== Barcode Scanner Types ==========
 
 export interface ScannerConfig {
     formats: BarcodeFormat[]
-    onResult: (result: string | null) => void
+    onResult: (result: string | null, barcodes?: BarcodeResult[]) => void
     onError?: (error: Error) => void
+    timeout?: number        // ms, fail with a scan-timeout error when nothing is detected in time
+    continuous?: ContinuousScanConfig
+    scanRegion?: ScanRegion // Only this part of the viewport is sent to the detector (default: whole frame)
+    overlay?: boolean       // Outline detected codes and the scan region over the preview (default true)
+    overlayColor?: string   // CSS color of the outlines (default '#22c55e')
+    onFrame?: (barcodes: BarcodeResult[]) => void // Called after every scanned frame, also when nothing was found
+    scanRate?: number       // Maximum scans per second (default 15, 0 = every animation frame)
+    useWorker?: boolean     // Run detection in a Web Worker when supported (default false)
+    parse?: boolean         // Attach a structured `parsed` payload to every result (default false)
+}
+
+// ========== Barcode Payload Types ==========
+
+export type ParsedBarcode =
+    | GS1Payload
+    | UrlPayload
+    | WifiPayload
+    | ContactPayload
+    | EmvcoPayload
+    | TextPayload
+
+export interface GS1Payload {
+    type: 'gs1'
+    gtin?: string           // AI 01 (or the EAN/UPC value padded to 14 digits)
+    sscc?: string           // AI 00
+    lot?: string            // AI 10
+    productionDate?: string // AI 11, YYYY-MM-DD
+    bestBefore?: string     // AI 15, YYYY-MM-DD
+    expiry?: string         // AI 17, YYYY-MM-DD
+    serial?: string         // AI 21
+    count?: number          // AI 30 / 37
+    elements: Record<string, string> // Every Application Identifier with its raw value
+}
+
+export interface UrlPayload {
+    type: 'url'
+    url: string
+    protocol: string
+    host: string
+}
+
+export interface WifiPayload {
+    type: 'wifi'
+    ssid: string
+    password?: string
+    security: 'WPA' | 'WEP' | 'SAE' | 'nopass' | string
+    hidden: boolean
+}
+
+export interface ContactPayload {
+    type: 'contact'
+    format: 'vcard' | 'mecard'
+    name?: string
+    organization?: string
+    title?: string
+    phones: string[]
+    emails: string[]
+    urls: string[]
+    address?: string
+    note?: string
+}
+
+export interface EmvcoPayload {
+    type: 'emvco'
+    payloadFormatIndicator: string
+    initiation?: 'static' | 'dynamic'
+    merchantName?: string
+    merchantCity?: string
+    merchantCategoryCode?: string
+    postalCode?: string
+    countryCode?: string
+    currency?: string       // ISO 4217 numeric code, e.g. '458'
+    amount?: number
+    billNumber?: string
+    referenceLabel?: string
+    crcValid: boolean
+    fields: Record<string, string> // Every top-level tag with its raw value
+}
+
+export interface TextPayload {
+    type: 'text'
+    text: string
+}
+
+export interface ScanRegion {
+    x: number               // % of the viewport width, from the left
+    y: number               // % of the viewport height, from the top
+    width: number           // % of the viewport width
+    height: number          // % of the viewport height
+}
+
+export interface FrameRect {
+    x: number               // px in the video frame
+    y: number               // px in the video frame
+    width: number           // px
+    height: number          // px
+}
+
+export interface Point {
+    x: number
+    y: number
+}
+
+export interface BarcodeResult {
+    format: string          // e.g. 'ean_13', 'qr_code'
+    rawValue: string
+    boundingBox: FrameRect  // px, relative to the full video frame
+    cornerPoints: Point[]   // Clockwise from top-left, px relative to the full video frame
+    parsed?: ParsedBarcode  // Structured payload, only when `ScannerConfig.parse` is enabled
+}
+
+export interface ContinuousScanConfig {
+    cooldown?: number       // ms to pause after each accepted scan (default 1000)
+    dedupWindow?: number    // ms a code must be out of view before it is accepted again (default: once per session)
+    maxScans?: number       // Finish automatically after this many unique scans
+    feedback?: {
+        haptic?: boolean    // Vibrate on each accepted scan (default true)
+        beep?: boolean      // Play a beep on each accepted scan (default false)
+    }
+}
+
+// ========== Video Types ==========
+
+export interface VideoConfig {
+    mimeType?: string       // Preferred type, e.g. 'video/mp4' (default: first supported of WebM VP9, WebM VP8, MP4)
+    audio?: boolean | MediaTrackConstraints // Record microphone audio (default false)
+    maxDuration?: number    // ms, the recording stops automatically
+    maxSize?: number        // bytes, the recording stops before the next chunk would exceed it
+    videoBitsPerSecond?: number
+    audioBitsPerSecond?: number
+    timeslice?: number      // ms between recorded chunks, the granularity of the size limit (default 1000)
+    poster?: ThumbnailConfig | false // Poster frame settings (default {size: 640, quality: 0.8}), false to skip it
+}
+
+// ========== Document Types ==========
+
+export interface DocumentConfig {
+    grayscale?: boolean     // (default false)
+    threshold?: boolean | number // Black and white: true adapts to uneven lighting, a number is a fixed 0-255 level (default false)
+    enhanceContrast?: boolean // Stretch the levels so paper turns white and ink black (default false)
+    minArea?: number        // % of the frame the page must cover to be detected (default 20)
+    detectionRate?: number  // Page detections per second in the live preview (default 5)
+    overlayColor?: string   // CSS color of the page outline (default '#3b82f6')
+}
+
+// ========== Export Types ==========
+
+export type PdfPageSize = 'a4' | 'a5' | 'letter' | 'legal' | [number, number] // [width, height] in pt
+
+export interface PdfExportConfig {
+    pageSize?: PdfPageSize  // (default 'a4')
+    orientation?: 'portrait' | 'landscape' | 'auto' // 'auto' turns each page to match its photo (default 'auto')
+    fit?: 'contain' | 'cover' | 'stretch' // How the photo fills the page inside the margins (default 'contain')
+    margin?: number         // pt (default 36, half an inch)
+    footer?: boolean | string[] // Text lines below each photo with {{placeholders}}, true for caption, date and position (default false)
+    fontSize?: number       // Footer font size in pt (default 10)
+    imageQuality?: number   // JPEG quality for photos that have to be re-encoded, e.g. PNG or WebP (default 0.9)
+    title?: string          // Document title
+    locale?: string         // BCP 47 locale for footer placeholders
+    timeZone?: string       // IANA time zone for footer dates
+    onProgress?: (done: number, total: number) => void
+}
+
+export interface ZipExportConfig {
+    folder?: string         // Folder of the media files inside the archive, '' for the root (default 'photos')
+    fileName?: (media: CapturedMedia, index: number) => string // File name without folder (default '001.jpg', '002.jpg', ...)
+    manifest?: string | false // Name of the JSON manifest, false to leave it out (default 'manifest.json')
+    onProgress?: (done: number, total: number) => void
+}
+
+export interface ExportManifest {
+    version: 1
+    createdAt: string       // ISO timestamp
+    items: ExportManifestItem[]
+}
+
+export interface ExportManifestItem {
+    file: string            // Path inside the archive
+    type: string            // MIME type
+    size: number            // bytes
+    duration?: number       // ms, videos only
+    metadata: PhotoMetadata
+}
+
+// ========== Upload Types ==========
+
+export interface UploadConfig {
+    endpoint: string        // URL every file is sent to
+    method?: 'POST' | 'PUT' // (default 'POST')
+    headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>) // Read before every request, e.g. for fresh auth tokens
+    fieldName?: string      // Multipart field of the file (default 'file')
+    metadataField?: string | false // Multipart field of the JSON metadata, false to leave it out (default 'metadata')
+    chunkSize?: number      // bytes, larger files are sent as raw Content-Range chunks instead of one multipart body (default: no chunking)
+    retry?: RetryConfig
+    trigger?: 'capture' | 'confirm' // Enqueue every capture, or only the photos open() resolves with (default 'confirm')
+    persist?: boolean       // Keep unfinished uploads in IndexedDB and resume them on the next visit (default true)
+    dbName?: string         // IndexedDB database name (default 'vue-camera-utility')
+    transport?: UploadTransport // Sends the requests (default: XMLHttpRequest), replace it for tests or custom protocols
+}
+
+export interface RetryConfig {
+    maxAttempts?: number    // Attempts before an upload fails, 0 for unlimited (default 5)
+    baseDelay?: number      // ms before the first retry, doubled for every further attempt (default 1000)
+    maxDelay?: number       // ms, upper limit of the retry delay (default 60000)
+}
+
+export interface UploadRequest {
+    url: string
+    method: string
+    headers: Record<string, string>
+    body: FormData | Blob   // Multipart body, or a raw chunk with Content-Range and X-Upload-Id headers
+    signal: AbortSignal
+    onProgress: (loaded: number, total: number) => void // bytes of this request
+}
+
+export interface UploadResponse {
+    status: number          // HTTP status, 0 when the request never reached the server
+    body?: unknown          // Parsed JSON, or the response text
+}
+
+export type UploadTransport = (request: UploadRequest) => Promise<UploadResponse>
+
+export type UploadStatus = 'pending' | 'uploading' | 'retrying' | 'done' | 'failed'
+
+export interface UploadItem {
+    id: string
+    name: string            // File name sent to the server
+    type: string            // MIME type
+    size: number            // bytes
+    status: UploadStatus
+    progress: number        // 0..1
+    uploadedBytes: number   // Confirmed bytes, chunked uploads resume from here
+    attempts: number
+    error?: string          // Last failure
+    nextAttemptAt?: number  // Epoch ms of the next retry
+    response?: unknown      // Response body of the successful request
+    metadata: PhotoMetadata
+}
+
+export interface UploadQueueStatus {
+    total: number
+    pending: number         // Waiting or retrying
+    uploading: number
+    done: number
+    failed: number
+    progress: number        // 0..1 over the bytes of every item
+    online: boolean
+    paused: boolean
 }
 
 // ========== Image Processing Types ==========
 
 export interface ImageConfig {
     // Basic output settings
-    imageType?: 'image/png' | 'image/jpeg'
-    imageQuality?: number // 0.0 to 1.0 (lower = more compression, higher = better quality, only applies for JPEG)
+    imageType?: ImageType
+    imageQuality?: number // 0.0 to 1.0 (lower = more compression, higher = better quality, JPEG, WebP and AVIF only)
+    fallbackTypes?: ImageType[] // Tried in order when the browser cannot encode `imageType` (default ['image/webp', 'image/jpeg'])
+    output?: 'dataUrl' | 'blob' // 'blob' returns a File with object URLs instead of base64 strings (default 'dataUrl')
+    thumbnail?: ThumbnailConfig | false // Gallery thumbnail settings, false to skip generating thumbnails
+    embedMetadata?: boolean // Write EXIF and XMP metadata into JPEG output (default false)
 
     // Size controls
     outputSize?: {
@@ -94,13 +566,22 @@ export interface ImageConfig {
     transform?: ImageTransform
 
     // Overlay options
-    watermark?: WatermarkConfig
+    watermark?: WatermarkLayer | WatermarkLayer[] // Layers are drawn in order
+    locale?: string // BCP 47 locale for placeholder formatting (default: browser locale)
+    timeZone?: string // IANA time zone for placeholder dates, e.g. 'Asia/Kuala_Lumpur' (default: device time zone)
 
     // Processing hooks
     beforeProcess?: (imageData: ImageData) => Promise<ImageData> | ImageData
     afterProcess?: (imageData: ImageData) => Promise<ImageData> | ImageData
 }
 
+export type ImageType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif'
+
+export interface ThumbnailConfig {
+    size?: number // px, longest side (default 320)
+    quality?: number // 0.0 to 1.0 (default 0.7)
+}
+
 export interface ImageTransform {
     resize?: {
         width?: ElementSize
@@ -119,7 +600,9 @@ export interface ImageTransform {
 
 // ========== Watermark Types ==========
 
-export interface WatermarkConfig {
+export type WatermarkLayer = WatermarkConfig | ImageWatermarkConfig | QrWatermarkConfig
+
+export interface WatermarkPlacement {
     // Positioning
     horizontalAlign: 'left' | 'center' | 'right'
     verticalAlign: 'top' | 'center' | 'bottom'
@@ -127,25 +610,58 @@ export interface WatermarkConfig {
     margin: ElementPosition
 
     // Styling
-    textStyle: TextStyle
     backgroundColor?: string // CSS color value (hex, rgb, rgba, etc.)
     opacity?: number // 0.0 to 1.0 (0 = transparent, 1 = opaque)
 
     // Dimensions
     width?: ElementSize
     height?: ElementSize
+}
+
+export interface WatermarkConfig extends WatermarkPlacement {
+    type?: 'text' // Text is the default layer type
+
+    // Styling
+    textStyle: TextStyle
 
     // Content
     value?: WatermarkValue
 }
 
+export interface ImageWatermarkConfig extends WatermarkPlacement {
+    type: 'image'
+    source: WatermarkImageSource // URLs must allow CORS, otherwise the canvas cannot be exported
+    fit?: 'contain' | 'cover' | 'stretch' // Only applies when both width and height are set (default 'contain')
+}
+
+export type WatermarkImageSource = string | Blob | ImageBitmap | HTMLImageElement | HTMLCanvasElement
+
+export interface QrWatermarkConfig extends WatermarkPlacement {
+    type: 'qr'
+    value: WatermarkValue // Encoded text, lines are joined with a newline, supports metadata placeholders
+    color?: string // CSS color of the dark modules (default '#000000')
+    errorCorrection?: 'L' | 'M' | 'Q' | 'H' // (default 'M')
+}
+
 export type WatermarkValue =
     | string
     | string[]
     | { type: 'function', getter: () => string | Promise<string> }
     | { type: 'arrayFunction', getter: () => string[] | Promise<string[]> }
 
-export type MetadataType = 'timestamp' | 'coordinate' | 'barcode' | 'caption'
+export type MetadataType = 'timestamp' | 'coordinate' | 'accuracy' | 'address' | 'geofence' | 'barcode' | 'caption'
+
+export interface PlaceholderOptions {
+    locale?: string
+    timeZone?: string
+}
+
+// Receives the text after the colon in {{name:format}}, returning undefined or null drops the line
+export type PlaceholderFormatter = (
+    metadata: PhotoMetadata,
+    format: string | undefined,
+    options: PlaceholderOptions
+) => string | number | undefined | null | Promise<string | number | undefined | null>
 
 export interface TextStyle {
     color: string // CSS color value (hex, rgb, rgba, etc.)
@@ -158,6 +674,104 @@ export interface TextStyle {
     textWrap?: boolean
 }
 
+// ========== Theme Types ==========
+
+export type ThemeMode = 'dark' | 'light' | 'auto' // 'auto' follows prefers-color-scheme
+
+// Each color is a CSS color, set as a `--vcu-color-*` custom property
+export interface ThemeColors {
+    background?: string         // Camera screen and control bar
+    foreground?: string         // Icons and text on the background
+    surface?: string            // Gallery and caption modal
+    surfaceMuted?: string       // Gallery header and inputs
+    surfaceForeground?: string  // Text on surfaces
+    border?: string
+    muted?: string              // Secondary text
+    primary?: string            // Save and confirm buttons, selection, links
+    primaryForeground?: string
+    secondary?: string          // Skip and cancel buttons
+    secondaryForeground?: string
+    danger?: string             // Delete and recording
+    shutter?: string            // Shutter button
+}
+
+export interface ThemeConfig {
+    mode?: ThemeMode            // Built-in color set (default 'dark')
+    colors?: ThemeColors        // Overrides colors of the active mode
+    radius?: string             // Buttons, inputs and gallery tiles (default '0.25rem')
+    panelRadius?: string        // Modals and panels (default '0.5rem')
+    fontFamily?: string         // (default: inherited from the page)
+}
+
+// ========== Slot Types ==========
+
+// State and actions of the camera, passed to the `top-bar`, `controls` and `shutter` slots
+export interface CameraSlotProps {
+    cameraMode: CameraMode | null
+    photos: CapturedPhoto[]     // Photos in the gallery
+    remainingPhotos: number     // Photos left until gallery.maxPhotos
+    recordingState: RecordingState
+    countdown: number           // s left on the self-timer, 0 when it is not running
+    timerOptions: number[]      // Self-timer delays in s, empty when there is no timer button
+    timerDelay: number          // s, 0 when the timer is off
+    canBurst: boolean           // Burst capture is configured and no photo is being retaken
+    burstEnabled: boolean
+    canCapture: boolean         // false while a burst or recording starts, or when a burst has no room left
+    canSwitchCamera: boolean
+    canOpenGallery: boolean
+    cameraUnavailable: boolean  // The file fallback is shown
+    capture: () => void         // Same as the shutter: photo, start/stop recording or cancel the self-timer
+    switchCamera: () => void
+    openGallery: () => void
+    togglePauseRecording: () => void
+    cycleTimer: () => void      // Next self-timer delay
+    toggleBurst: () => void
+    close: () => void
+}
+
+export interface CaptionModalSlotProps {
+    media: CapturedMedia        // Photo or video waiting for its caption
+    caption: string             // Current input
+    config: CaptionConfig
+    setCaption: (caption: string) => void
+    save: (caption?: string) => void // Saves the given caption or the current input
+    skip: () => void            // Keeps the media without a caption
+}
+
+export interface GalleryHeaderSlotProps {
+    photos: CapturedPhoto[]
+    selected: CapturedPhoto[]
+    maxSelected: number
+    maxPhotos: number
+    close: () => void
+    confirm: () => void         // Resolves open() with the selected photos
+    selectAll: () => void
+    clearSelection: () => void
+}
+
+export interface GalleryItemSlotProps {
+    photo: CapturedPhoto
+    index: number
+    selected: boolean
+    selectable: boolean         // false when maxSelected other photos are selected
+    upload?: UploadItem         // Only with extra.upload
+    dragging: boolean           // The photo is being dragged
+    dropTarget: boolean         // A dragged photo would be dropped here
+    toggle: () => void
+    preview: () => void         // Opens the preview, unless gallery.preview is false
+    dragHandle: {               // Bind to an element (v-bind) to drag the photo from it
+        onPointerdown: (event: PointerEvent) => void
+        onPointermove: (event: PointerEvent) => void
+        onPointerup: () => void
+        onPointercancel: () => void
+    }
+}
+
+export interface EmptyStateSlotProps {
+    maxPhotos: number
+    close: () => void
+}
+
 // ========== Common UI Types ==========
 
 export interface ElementPosition {
@@ -0,0 +1,432 @@
+import type {
+    ContactPayload,
+    EmvcoPayload,
+    GS1Payload,
+    ParsedBarcode,
+    UrlPayload,
+    WifiPayload
+} from "@/types";
+
+// ASCII group separator, encodes FNC1 inside GS1 element strings
+const GROUP_SEPARATOR = '\x1d';
+
+// Symbology identifiers prepended by some scanners to GS1 element strings
+const GS1_SYMBOLOGY_PREFIX = /^\](C1|e0|d2|Q3|J1)/;
+
+// Total length (AI + data) of the Application Identifiers with a predefined length, by first two digits
+const GS1_PREDEFINED_LENGTHS: Record<string, number> = {
+    '00': 20, '01': 16, '02': 16, '03': 16, '04': 18,
+    '11': 8, '12': 8, '13': 8, '14': 8, '15': 8, '16': 8, '17': 8, '18': 8, '19': 8,
+    '20': 4,
+    '31': 10, '32': 10, '33': 10, '34': 10, '35': 10, '36': 10,
+    '41': 16,
+};
+
+/**
+ * Parses a scanned barcode value into a structured payload
+ * @param value - Raw barcode value
+ * @param format - Barcode format reported by the detector (optional)
+ * @returns The recognized payload, or a text payload when nothing matched
+ */
+export function parseBarcode(value: string, format?: string): ParsedBarcode {
+    const trimmed = value.trim();
+
+    // Retail linear codes carry a plain GTIN, UPC-E abbreviates a UPC-A
+    if (format === 'upc_e') {
+        const upcA = expandUpcE(trimmed);
+        if (upcA) return toGtinPayload(upcA);
+    } else if (format && ['ean_13', 'ean_8', 'upc_a', 'itf'].includes(format) && /^\d{8,14}$/.test(trimmed)) {
+        return toGtinPayload(trimmed);
+    }
+
+    if (trimmed.startsWith('000201')) {
+        const payload = parseEmvco(trimmed);
+        if (payload) return payload;
+    }
+
+    if (isGS1(trimmed, format)) {
+        const payload = parseGS1(trimmed);
+        if (payload) return payload;
+    }
+
+    if (/^WIFI:/i.test(trimmed)) {
+        const payload = parseWifi(trimmed);
+        if (payload) return payload;
+    }
+
+    if (/^BEGIN:VCARD/i.test(trimmed)) {
+        return parseVCard(trimmed);
+    }
+
+    if (/^MECARD:/i.test(trimmed)) {
+        return parseMeCard(trimmed);
+    }
+
+    const url = parseUrl(trimmed);
+    if (url) return url;
+
+    return {type: 'text', text: value};
+}
+
+// ========== GS1 ==========
+
+const toGtinPayload = (gtin: string): GS1Payload => {
+    const gtin14 = gtin.padStart(14, '0');
+    return {type: 'gs1', gtin: gtin14, elements: {'01': gtin14}};
+};
+
+/**
+ * GS1 mod 10 check digit, weights 3 and 1 alternate starting from the rightmost digit
+ * @param digits - The digits without check digit
+ */
+const getCheckDigit = (digits: string): number => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        sum += Number(digits[i]) * ((digits.length - i) % 2 === 1 ? 3 : 1);
+    }
+    return (10 - sum % 10) % 10;
+};
+
+/**
+ * Expands a UPC-E code to the UPC-A it abbreviates, e.g. 01234565 to 012345000065
+ * @param value - 6 digits, or 7/8 digits starting with the number system (0 or 1) and optionally ending with the check digit
+ * @returns The 12 digit UPC-A, or null when the value is no valid UPC-E
+ */
+const expandUpcE = (value: string): string | null => {
+    const digits = value.length === 6 ? `0${value}` : value;
+    if (!/^[01]\d{6,7}$/.test(digits)) return null;
+
+    const [numberSystem, d1, d2, d3, d4, d5, d6] = digits;
+    let body: string;
+    switch (d6) {
+        case '0':
+        case '1':
+        case '2':
+            body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+            break;
+        case '3':
+            body = `${d1}${d2}${d3}00000${d4}${d5}`;
+            break;
+        case '4':
+            body = `${d1}${d2}${d3}${d4}00000${d5}`;
+            break;
+        default:
+            body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+    }
+
+    const upcA = numberSystem + body;
+    const checkDigit = String(getCheckDigit(upcA));
+    if (digits.length === 8 && digits[7] !== checkDigit) return null;
+    return upcA + checkDigit;
+};
+
+const isGS1 = (value: string, format?: string): boolean => {
+    return GS1_SYMBOLOGY_PREFIX.test(value)
+        || /^\(\d{2,4}\)/.test(value)
+        || (value.includes(GROUP_SEPARATOR) && /^\d{2}/.test(value))
+        || (!!format && format.startsWith('databar'))
+        || /^(01\d{14}|00\d{18})/.test(value);
+};
+
+/**
+ * Number of digits of the Application Identifier starting the given string
+ */
+const getAILength = (data: string): number => {
+    const first = data[0];
+    const two = data.slice(0, 2);
+
+    if (first === '0' || first === '1') return 2;
+    if (first === '2') return ['23', '24', '25'].includes(two) ? 3 : 2;
+    if (two === '30' || two === '37') return 2;
+    if (first === '3') return 4;
+    if (first === '4') return 3;
+    if (two === '71') return 3;
+    if (first === '7' || first === '8') return 4;
+    return 2;
+};
+
+/**
+ * Converts a GS1 YYMMDD date into YYYY-MM-DD, a day of 00 means the last day of the month
+ */
+const toGS1Date = (value: string): string | undefined => {
+    if (!/^\d{6}$/.test(value)) return undefined;
+
+    const yy = parseInt(value.slice(0, 2), 10);
+    const month = parseInt(value.slice(2, 4), 10);
+    let day = parseInt(value.slice(4, 6), 10);
+
+    // GS1 sliding century window: 51 years back, 49 years ahead of the current year
+    const currentYear = new Date().getFullYear();
+    const century = Math.floor(currentYear / 100) * 100;
+    let year = century + yy;
+    if (year - currentYear > 49) year -= 100;
+    if (currentYear - year > 50) year += 100;
+
+    if (day === 0) {
+        day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    }
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const parseGS1 = (value: string): GS1Payload | null => {
+    const elements: Record<string, string> = {};
+
+    if (/^\(\d{2,4}\)/.test(value)) {
+        // Human readable form: (01)09501101530003(17)250101(10)ABC
+        const pattern = /\((\d{2,4})\)([^(]*)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(value)) !== null) {
+            elements[match[1]] = match[2];
+        }
+    } else {
+        let data = value.replace(GS1_SYMBOLOGY_PREFIX, '');
+        if (data.startsWith(GROUP_SEPARATOR)) data = data.slice(1);
+
+        while (data.length > 0) {
+            const aiLength = getAILength(data);
+            const ai = data.slice(0, aiLength);
+            if (!/^\d+$/.test(ai)) return null;
+
+            const predefined = GS1_PREDEFINED_LENGTHS[ai.slice(0, 2)];
+            let end: number;
+            if (predefined) {
+                end = predefined;
+            } else {
+                // Variable length, terminated by a separator or the end of the data
+                const separator = data.indexOf(GROUP_SEPARATOR, aiLength);
+                end = separator === -1 ? data.length : separator;
+            }
+
+            elements[ai] = data.slice(aiLength, end);
+            data = data.slice(end);
+            if (data.startsWith(GROUP_SEPARATOR)) data = data.slice(1);
+        }
+    }
+
+    if (Object.keys(elements).length === 0) return null;
+
+    const count = elements['30'] ?? elements['37'];
+
+    return {
+        type: 'gs1',
+        gtin: elements['01'] ?? elements['02'],
+        sscc: elements['00'],
+        lot: elements['10'],
+        productionDate: elements['11'] ? toGS1Date(elements['11']) : undefined,
+        bestBefore: elements['15'] ? toGS1Date(elements['15']) : undefined,
+        expiry: elements['17'] ? toGS1Date(elements['17']) : undefined,
+        serial: elements['21'],
+        count: count !== undefined ? parseInt(count, 10) : undefined,
+        elements,
+    };
+};
+
+// ========== URL ==========
+
+const parseUrl = (value: string): UrlPayload | null => {
+    if (/\s/.test(value)) return null;
+
+    const candidate = /^www\./i.test(value) ? `https://${value}` : value;
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(candidate)) return null;
+
+    try {
+        const url = new URL(candidate);
+        return {
+            type: 'url',
+            url: url.href,
+            protocol: url.protocol.replace(/:$/, ''),
+            host: url.host,
+        };
+    } catch {
+        return null;
+    }
+};
+
+// ========== Wi-Fi / MECARD ==========
+
+/**
+ * Splits a `KEY:value;KEY:value;;` payload, honoring backslash escapes
+ */
+const parseKeyValueFields = (body: string): Array<[string, string]> => {
+    const fields: Array<[string, string]> = [];
+    let current = '';
+    let escaped = false;
+
+    const flush = () => {
+        const separator = current.indexOf(':');
+        if (separator > 0) {
+            fields.push([current.slice(0, separator).toUpperCase(), current.slice(separator + 1)]);
+        }
+        current = '';
+    };
+
+    for (const char of body) {
+        if (escaped) {
+            current += char;
+            escaped = false;
+        } else if (char === '\\') {
+            escaped = true;
+        } else if (char === ';') {
+            flush();
+        } else {
+            current += char;
+        }
+    }
+    flush();
+
+    return fields;
+};
+
+const parseWifi = (value: string): WifiPayload | null => {
+    const fields = parseKeyValueFields(value.slice('WIFI:'.length));
+    const get = (key: string) => fields.find(([name]) => name === key)?.[1];
+
+    const ssid = get('S');
+    if (ssid === undefined) return null;
+
+    return {
+        type: 'wifi',
+        ssid,
+        password: get('P') || undefined,
+        security: get('T') || 'nopass',
+        hidden: get('H')?.toLowerCase() === 'true',
+    };
+};
+
+const parseMeCard = (value: string): ContactPayload => {
+    const fields = parseKeyValueFields(value.slice('MECARD:'.length));
+    const all = (key: string) => fields.filter(([name]) => name === key).map(([, fieldValue]) => fieldValue);
+
+    // N is "Last,First"
+    const name = all('N')[0]?.split(',').reverse().join(' ').trim();
+
+    return {
+        type: 'contact',
+        format: 'mecard',
+        name: name || undefined,
+        organization: all('ORG')[0],
+        phones: all('TEL'),
+        emails: all('EMAIL'),
+        urls: all('URL'),
+        address: all('ADR')[0],
+        note: all('NOTE')[0],
+    };
+};
+
+// ========== vCard ==========
+
+const parseVCard = (value: string): ContactPayload => {
+    // Unfold continuation lines (lines starting with whitespace)
+    const lines = value.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const contact: ContactPayload = {type: 'contact', format: 'vcard', phones: [], emails: [], urls: []};
+    let structuredName: string | undefined;
+
+    for (const line of lines) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+
+        // Property name without parameters or group, e.g. "item1.TEL;TYPE=CELL"
+        const property = line.slice(0, separator).split(';')[0].split('.').pop()!.toUpperCase();
+        const propertyValue = line.slice(separator + 1).replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, '\n');
+
+        switch (property) {
+            case 'FN':
+                contact.name = propertyValue;
+                break;
+            case 'N':
+                structuredName = propertyValue.split(';').slice(0, 2).reverse().join(' ').trim();
+                break;
+            case 'ORG':
+                contact.organization = propertyValue.split(';').filter(Boolean).join(', ');
+                break;
+            case 'TITLE':
+                contact.title = propertyValue;
+                break;
+            case 'TEL':
+                contact.phones.push(propertyValue.replace(/^tel:/i, ''));
+                break;
+            case 'EMAIL':
+                contact.emails.push(propertyValue);
+                break;
+            case 'URL':
+                contact.urls.push(propertyValue);
+                break;
+            case 'ADR':
+                contact.address = propertyValue.split(';').filter(Boolean).join(', ');
+                break;
+            case 'NOTE':
+                contact.note = propertyValue;
+                break;
+        }
+    }
+
+    contact.name = contact.name || structuredName || undefined;
+    return contact;
+};
+
+// ========== EMVCo ==========
+
+/**
+ * Splits an EMVCo TLV string (2-digit tag, 2-digit length) into its fields
+ */
+const parseTLV = (value: string): Record<string, string> | null => {
+    const fields: Record<string, string> = {};
+    let position = 0;
+
+    while (position < value.length) {
+        const tag = value.slice(position, position + 2);
+        const length = parseInt(value.slice(position + 2, position + 4), 10);
+        if (!/^\d{2}$/.test(tag) || isNaN(length) || position + 4 + length > value.length) return null;
+
+        fields[tag] = value.slice(position + 4, position + 4 + length);
+        position += 4 + length;
+    }
+
+    return fields;
+};
+
+/**
+ * CRC-16/CCITT-FALSE as required by the EMVCo QR specification
+ */
+const crc16 = (value: string): string => {
+    let crc = 0xffff;
+    for (const byte of new TextEncoder().encode(value)) {
+        crc ^= byte << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+            crc &= 0xffff;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+const parseEmvco = (value: string): EmvcoPayload | null => {
+    const fields = parseTLV(value);
+    if (!fields || fields['00'] === undefined) return null;
+
+    // The CRC covers everything up to and including the "6304" tag and length
+    const crcIndex = value.lastIndexOf('6304');
+    const crcValid = fields['63'] !== undefined && crcIndex === value.length - 8
+        && crc16(value.slice(0, crcIndex + 4)) === fields['63'].toUpperCase();
+
+    const additionalData = fields['62'] ? parseTLV(fields['62']) ?? {} : {};
+    const amount = fields['54'] !== undefined ? parseFloat(fields['54']) : undefined;
+
+    return {
+        type: 'emvco',
+        payloadFormatIndicator: fields['00'],
+        initiation: fields['01'] === '11' ? 'static' : (fields['01'] === '12' ? 'dynamic' : undefined),
+        merchantCategoryCode: fields['52'],
+        currency: fields['53'],
+        amount: amount !== undefined && !isNaN(amount) ? amount : undefined,
+        countryCode: fields['58'],
+        merchantName: fields['59'],
+        merchantCity: fields['60'],
+        postalCode: fields['61'],
+        billNumber: additionalData['01'],
+        referenceLabel: additionalData['05'],
+        crcValid,
+        fields,
+    };
+};
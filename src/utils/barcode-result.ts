@@ -0,0 +1,18 @@
+import type {BarcodeResult, Point} from "@/types";
+
+/**
+ * Converts a detector result into a plain, serializable barcode result.
+ * Kept apart from the scanner so the barcode worker only bundles this function.
+ * @param barcode - Barcode returned by BarcodeDetector.detect
+ * @param offset - Position of the scanned crop within the full frame
+ */
+export function toBarcodeResult(barcode: DetectedBarcode, offset: Point = {x: 0, y: 0}): BarcodeResult {
+    const {x, y, width, height} = barcode.boundingBox;
+
+    return {
+        format: barcode.format,
+        rawValue: barcode.rawValue,
+        boundingBox: {x: x + offset.x, y: y + offset.y, width, height},
+        cornerPoints: (barcode.cornerPoints ?? []).map((point) => ({x: point.x + offset.x, y: point.y + offset.y})),
+    };
+}
@@ -1,28 +1,213 @@
 import 'barcode-detector';
-import {ScannerConfig} from "@/types";
+import {BarcodeResult, FrameRect, Point, ScannerConfig, ScanRegion} from "@/types";
+import type {BarcodeWorkerRequest, BarcodeWorkerResponse} from "@/workers/barcode.worker";
+import {parseBarcode} from "@/utils/barcode-parser";
+import {toBarcodeResult} from "@/utils/barcode-result";
+import BarcodeWorker from "@/workers/barcode.worker?worker&inline";
+
+export const DEFAULT_BARCODE_FORMATS: BarcodeFormat[] = ['qr_code', 'code_128', 'ean_13', 'data_matrix', 'aztec', 'pdf417'];
+
+/**
+ * Detects barcodes in a region of the current video frame
+ */
+interface FrameDetector {
+    detect(video: HTMLVideoElement, region: FrameRect): Promise<BarcodeResult[]>
+    dispose(): void
+}
+
+/**
+ * Creates a detector that runs on the main thread. A single canvas (an OffscreenCanvas
+ * where supported) is reused for every frame and only resized when the region changes.
+ * @param formats - Barcode formats to detect
+ */
+function createCanvasFrameDetector(formats: BarcodeFormat[]): FrameDetector {
+    const detector = new BarcodeDetector({formats});
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(1, 1)
+        : document.createElement('canvas');
+    const ctx = canvas.getContext('2d', {willReadFrequently: true}) as
+        CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
+    return {
+        async detect(video, region) {
+            if (!ctx) throw new Error('Barcode scan failed: Canvas context not found');
+
+            if (canvas.width !== region.width || canvas.height !== region.height) {
+                canvas.width = region.width;
+                canvas.height = region.height;
+            }
+
+            ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+
+            const barcodes = await detector.detect(canvas);
+            return barcodes.map((barcode) => toBarcodeResult(barcode, region));
+        },
+        dispose() {
+            // Release the backing store
+            canvas.width = 0;
+            canvas.height = 0;
+        },
+    };
+}
+
+/**
+ * Creates a detector that runs in a Web Worker. Each frame is cropped into an
+ * ImageBitmap that is transferred (not copied) to the worker. The worker is inlined
+ * into the bundle, so it loads regardless of where the host app serves the library
+ * from. Falls back to the main thread when the worker fails to load.
+ * @param formats - Barcode formats to detect
+ */
+function createWorkerFrameDetector(formats: BarcodeFormat[]): FrameDetector {
+    const worker = new BarcodeWorker();
+    const pending = new Map<number, { resolve: (barcodes: BarcodeResult[]) => void, reject: (error: Error) => void }>();
+    let nextId = 0;
+    let fallback: FrameDetector | null = null;
+
+    const rejectAll = (error: Error) => {
+        pending.forEach(({reject}) => reject(error));
+        pending.clear();
+    };
+
+    // Frames already posted were transferred to the worker, they count as frames without barcodes
+    const resolveAllEmpty = () => {
+        pending.forEach(({resolve}) => resolve([]));
+        pending.clear();
+    };
+
+    worker.onmessage = (event: MessageEvent<BarcodeWorkerResponse>) => {
+        const response = event.data;
+        const request = pending.get(response.id);
+        if (!request) return;
+
+        pending.delete(response.id);
+        if ('error' in response) {
+            request.reject(new Error(response.error));
+        } else {
+            request.resolve(response.barcodes);
+        }
+    };
+    worker.onerror = (event) => {
+        console.warn('Barcode worker failed, scanning on the main thread', event.message);
+        worker.terminate();
+        fallback = fallback ?? createCanvasFrameDetector(formats);
+        resolveAllEmpty();
+    };
+
+    const post = (message: BarcodeWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+    post({type: 'init', formats});
+
+    return {
+        async detect(video, region) {
+            if (fallback) return fallback.detect(video, region);
+
+            const bitmap = await createImageBitmap(video, region.x, region.y, region.width, region.height);
+            const id = nextId++;
+
+            return new Promise<BarcodeResult[]>((resolve, reject) => {
+                pending.set(id, {resolve, reject});
+                post({type: 'detect', id, bitmap, offset: {x: region.x, y: region.y}}, [bitmap]);
+            });
+        },
+        dispose() {
+            worker.terminate();
+            fallback?.dispose();
+            rejectAll(new Error('Barcode scanner stopped'));
+        },
+    };
+}
+
+/**
+ * Creates the worker detector when requested and supported, otherwise the main thread one
+ * @param formats - Barcode formats to detect
+ * @param useWorker - Whether detection should run off the main thread
+ */
+function createFrameDetector(formats: BarcodeFormat[], useWorker: boolean): FrameDetector {
+    if (useWorker && typeof Worker !== 'undefined' && typeof createImageBitmap === 'function') {
+        try {
+            return createWorkerFrameDetector(formats);
+        } catch (err) {
+            console.warn('Barcode worker unavailable, scanning on the main thread', err);
+        }
+    }
+
+    return createCanvasFrameDetector(formats);
+}
 
 /**
- * Creates a CORS-safe canvas from a video element
+ * Calculates how the video frame is scaled and offset inside its element,
+ * which renders it with object-fit: cover
+ * @param video - The displayed video element
  */
-function createCORSSafeCanvas(video: HTMLVideoElement): HTMLCanvasElement {
-    // Create a canvas element
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-
-    // Set canvas dimensions to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    // Draw the video frame to canvas
-    if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+function getCoverTransform(video: HTMLVideoElement) {
+    const viewWidth = video.clientWidth || video.videoWidth;
+    const viewHeight = video.clientHeight || video.videoHeight;
+    const scale = Math.max(viewWidth / video.videoWidth, viewHeight / video.videoHeight);
+
+    return {
+        scale,
+        offsetX: (video.videoWidth * scale - viewWidth) / 2,
+        offsetY: (video.videoHeight * scale - viewHeight) / 2,
+    };
+}
+
+/**
+ * Maps a point in the video frame to a point in the displayed video element
+ * @param video - The displayed video element
+ * @param point - Point in video frame pixels
+ */
+export function frameToViewPoint(video: HTMLVideoElement, point: Point): Point {
+    const {scale, offsetX, offsetY} = getCoverTransform(video);
+    return {
+        x: point.x * scale - offsetX,
+        y: point.y * scale - offsetY,
+    };
+}
+
+/**
+ * Maps a point in the displayed video element to a point in the video frame
+ * @param video - The displayed video element
+ * @param point - Point in element pixels
+ */
+export function viewToFramePoint(video: HTMLVideoElement, point: Point): Point {
+    const {scale, offsetX, offsetY} = getCoverTransform(video);
+    return {
+        x: (point.x + offsetX) / scale,
+        y: (point.y + offsetY) / scale,
+    };
+}
+
+/**
+ * Converts a scan region (percent of the displayed viewport) to video frame pixels
+ * @param video - The displayed video element
+ * @param region - Scan region, the whole frame when omitted
+ */
+export function getScanRegionRect(video: HTMLVideoElement, region?: ScanRegion): FrameRect {
+    if (!region) {
+        return {x: 0, y: 0, width: video.videoWidth, height: video.videoHeight};
     }
 
-    return canvas;
+    const {scale, offsetX, offsetY} = getCoverTransform(video);
+    const viewWidth = video.clientWidth || video.videoWidth;
+    const viewHeight = video.clientHeight || video.videoHeight;
+
+    // Viewport percent -> element px -> frame px, clamped to the frame
+    const left = Math.max(0, Math.round(((region.x / 100) * viewWidth + offsetX) / scale));
+    const top = Math.max(0, Math.round(((region.y / 100) * viewHeight + offsetY) / scale));
+    const right = Math.min(video.videoWidth, Math.round((((region.x + region.width) / 100) * viewWidth + offsetX) / scale));
+    const bottom = Math.min(video.videoHeight, Math.round((((region.y + region.height) / 100) * viewHeight + offsetY) / scale));
+
+    return {
+        x: left,
+        y: top,
+        width: Math.max(1, right - left),
+        height: Math.max(1, bottom - top),
+    };
 }
 
 /**
- * Continuously scans for barcodes in video stream using the provided configuration
+ * Continuously scans for barcodes in video stream using the provided configuration.
+ * Frames are scanned at most `scanRate` times per second and a new scan only starts
+ * once the previous one has finished.
  * @param video - The video element to scan
  * @param config - Scanner configuration including formats and callbacks
  * @returns A function that stops the scanning process when called
@@ -31,34 +216,43 @@ export function startBarcodeScanner(
     video: HTMLVideoElement,
     config: ScannerConfig
 ): () => void {
-    const {formats, onResult, onError} = config;
+    const {formats, onResult, onError, onFrame, scanRegion, scanRate = 15, useWorker = false, parse = false} = config;
 
     // Create detector with specified formats
-    const detector = new BarcodeDetector({formats});
+    const detector = createFrameDetector(formats, useWorker);
+    const minInterval = scanRate > 0 ? 1000 / scanRate : 0;
 
     let isScanning = true;
     let animationFrameId: number;
+    let lastScanAt = -Infinity;
 
-    const tick = async () => {
+    const tick = async (now: number) => {
         if (!isScanning) return;
 
         try {
-            if (video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0) {
-                // Use the CORS-safe bitmap creation function instead
-                const canvas = await createCORSSafeCanvas(video);
+            if (now - lastScanAt >= minInterval &&
+                video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0) {
+                lastScanAt = now;
 
-                // Detect barcodes
-                const barcodes = await detector.detect(canvas);
+                // Only draw the scan region, recalculated every scan to follow layout changes
+                const region = getScanRegionRect(video, scanRegion);
 
-                // Release canvas resources
-                canvas.remove();
+                // Detect barcodes, the next frame is not requested until this resolves
+                const detected = await detector.detect(video, region);
+                const barcodes = parse
+                    ? detected.map((barcode) => ({...barcode, parsed: parseBarcode(barcode.rawValue, barcode.format)}))
+                    : detected;
 
-                // If a barcode is found, call onResult
+                if (!isScanning) return;
+                onFrame?.(barcodes);
+
+                // If a barcode is found, call onResult with every code in the frame
                 if (barcodes.length > 0) {
-                    onResult(barcodes[0].rawValue);
+                    onResult(barcodes[0].rawValue, barcodes);
                 }
             }
         } catch (err) {
+            if (!isScanning) return;
             console.error('Barcode scan failed', err);
 
             // Call onError if provided
@@ -80,6 +274,68 @@ export function startBarcodeScanner(
     return () => {
         isScanning = false;
         cancelAnimationFrame(animationFrameId);
+        detector.dispose();
+    };
+}
+
+/**
+ * Detects every barcode in a still image, e.g. a picked file drawn onto a canvas
+ * @param image - The image to scan
+ * @param formats - Barcode formats to detect (optional)
+ * @param parse - Attach a structured payload to every result (optional)
+ * @returns Every barcode found, an empty array when there is none
+ */
+export async function detectBarcodesInImage(
+    image: HTMLCanvasElement | ImageBitmap | HTMLImageElement,
+    formats: BarcodeFormat[] = DEFAULT_BARCODE_FORMATS,
+    parse: boolean = false
+): Promise<BarcodeResult[]> {
+    const detector = new BarcodeDetector({formats});
+    const barcodes = (await detector.detect(image)).map((barcode) => toBarcodeResult(barcode));
+
+    return parse
+        ? barcodes.map((barcode) => ({...barcode, parsed: parseBarcode(barcode.rawValue, barcode.format)}))
+        : barcodes;
+}
+
+/**
+ * Creates a filter for continuous scanning that accepts each value once per
+ * de-duplication window and ignores all values during the cooldown after an accepted scan
+ * @param cooldown Pause after each accepted scan in milliseconds
+ * @param dedupWindow Time a value must be out of view before it is accepted again (Infinity = once per session)
+ * @returns A function that takes the values detected in one frame and returns the accepted ones
+ */
+export function createBarcodeDeduplicator(
+    cooldown: number = 1000,
+    dedupWindow: number = Infinity
+): (values: string[]) => string[] {
+    const lastSeen = new Map<string, number>();
+    let lastAccepted = -Infinity;
+
+    return (values: string[]) => {
+        const now = Date.now();
+        const inCooldown = now - lastAccepted < cooldown;
+
+        const accepted = values.filter((value) => {
+            const seenAt = lastSeen.get(value);
+            const isDuplicate = seenAt !== undefined && now - seenAt < dedupWindow;
+
+            // Keep the window sliding while a known code stays in view
+            if (seenAt !== undefined) {
+                lastSeen.set(value, now);
+            }
+
+            if (isDuplicate || inCooldown) return false;
+
+            lastSeen.set(value, now);
+            return true;
+        });
+
+        if (accepted.length > 0) {
+            lastAccepted = now;
+        }
+
+        return accepted;
     };
 }
 
@@ -87,18 +343,21 @@ export function startBarcodeScanner(
  * Scans for a barcode until one is found or an error occurs
  * @param video - The video element to scan
  * @param formats - Barcode formats to detect (optional)
- * @returns Promise that resolves with barcode value or null
+ * @param options - Scan region, rate, worker, parsing and per-frame callback (optional)
+ * @returns Promise that resolves with every barcode in the first matching frame
  */
 export async function scanBarcodeUntilFound(
     video: HTMLVideoElement,
-    formats: BarcodeFormat[] = ['qr_code', 'code_128', 'ean_13', 'data_matrix', 'aztec', 'pdf417'],
-): Promise<string | null> {
+    formats: BarcodeFormat[] = DEFAULT_BARCODE_FORMATS,
+    options: Omit<ScannerConfig, 'formats' | 'onResult' | 'onError'> = {},
+): Promise<BarcodeResult[] | null> {
     return new Promise((resolve, reject) => {
         const stopScanner = startBarcodeScanner(video, {
+            ...options,
             formats,
-            onResult: (result) => {
+            onResult: (_, barcodes) => {
                 stopScanner(); // Stop scanning when result is found
-                resolve(result);
+                resolve(barcodes ?? null);
             },
             onError: (error) => {
                 stopScanner(); // Stop scanning on error
@@ -113,13 +372,15 @@ export async function scanBarcodeUntilFound(
  * @param video - The video element to scan
  * @param formats - Barcode formats to detect (optional)
  * @param timeoutMs - Timeout in milliseconds (default: 30000)
- * @returns Promise that resolves with barcode value or null on timeout
+ * @param options - Scan region, rate, worker, parsing and per-frame callback (optional)
+ * @returns Promise that resolves with every barcode in the first matching frame, or null on timeout
  */
 export async function scanBarcodeWithTimeout(
     video: HTMLVideoElement,
-    formats: BarcodeFormat[] = ['qr_code', 'code_128', 'ean_13', 'data_matrix', 'aztec', 'pdf417'],
-    timeoutMs: number = 30000
-): Promise<string | null> {
+    formats: BarcodeFormat[] = DEFAULT_BARCODE_FORMATS,
+    timeoutMs: number = 30000,
+    options: Omit<ScannerConfig, 'formats' | 'onResult' | 'onError'> = {},
+): Promise<BarcodeResult[] | null> {
     return new Promise((resolve) => {
         let isResolved = false;
 
@@ -134,13 +395,14 @@ export async function scanBarcodeWithTimeout(
 
         // Start scanner
         const stopScanner = startBarcodeScanner(video, {
+            ...options,
             formats,
-            onResult: (result) => {
+            onResult: (_, barcodes) => {
                 if (!isResolved) {
                     isResolved = true;
                     clearTimeout(timeoutId);
                     stopScanner();
-                    resolve(result);
+                    resolve(barcodes ?? null);
                 }
             },
             onError: (error) => {
@@ -0,0 +1,505 @@
+import type {DocumentConfig, Point} from "@/types";
+
+// Longest side of the downscaled frame used for page detection
+const DETECTION_SIZE = 320;
+const DEFAULT_MIN_AREA = 20;
+const DEFAULT_DETECTION_RATE = 5;
+
+// ========== Page Detection ==========
+
+/**
+ * Converts RGBA pixels to luma
+ */
+const toGray = (data: Uint8ClampedArray, size: number): Uint8Array => {
+  const gray = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    gray[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return gray;
+};
+
+/**
+ * Separable box blur, smooths out text and paper texture before thresholding
+ */
+const boxBlur = (gray: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const horizontal = new Uint8Array(gray.length);
+  const result = new Uint8Array(gray.length);
+  const span = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += gray[row + Math.min(width - 1, Math.max(0, x + k))];
+      }
+      horizontal[row + x] = sum / span;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += horizontal[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+      }
+      result[y * width + x] = sum / span;
+    }
+  }
+  return result;
+};
+
+/**
+ * Otsu's method: the level that best separates the light page from a darker background
+ */
+const getOtsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => histogram[value]++);
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Finds the largest 4-connected region of the mask
+ * @returns Its pixel count and the leftmost and rightmost pixel of every row it spans
+ */
+const findLargestRegion = (mask: Uint8Array, width: number, height: number) => {
+  const labels = new Int32Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    label++;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && neighbor < mask.length && mask[neighbor] && !labels[neighbor]) {
+          labels[neighbor] = label;
+          stack[top++] = neighbor;
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  const edges: Point[] = [];
+  for (let y = 0; y < height && bestLabel; y++) {
+    let left = -1;
+    let right = -1;
+    for (let x = 0; x < width; x++) {
+      if (labels[y * width + x] === bestLabel) {
+        if (left < 0) left = x;
+        right = x;
+      }
+    }
+    if (left >= 0) edges.push({x: left, y}, {x: right, y});
+  }
+
+  return {size: bestSize, edges};
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+/**
+ * Convex hull (monotone chain), counter-clockwise in screen coordinates
+ */
+const getConvexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (const point of sorted.reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+const getPolygonArea = (points: Point[]): number => Math.abs(points.reduce((sum, point, i) => {
+  const next = points[(i + 1) % points.length];
+  return sum + point.x * next.y - next.x * point.y;
+}, 0)) / 2;
+
+/**
+ * Picks the four hull vertices spanning the largest quadrilateral, i.e. the page corners
+ */
+const getLargestQuad = (hull: Point[]): Point[] | null => {
+  // Drop nearly collinear vertices first, a page outline then has only a few dozen
+  const vertices = hull.filter((point, i) => {
+    const previous = hull[(i + hull.length - 1) % hull.length];
+    const next = hull[(i + 1) % hull.length];
+    return Math.abs(cross(previous, point, next)) > 1;
+  });
+  const n = vertices.length;
+  if (n < 4) return null;
+
+  const triangle = (a: number, b: number, c: number) => Math.abs(cross(vertices[a], vertices[b], vertices[c])) / 2;
+  let best: number[] | null = null;
+  let bestArea = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let k = i + 2; k < n; k++) {
+      let left = 0;
+      let leftIndex = -1;
+      for (let j = i + 1; j < k; j++) {
+        const area = triangle(i, j, k);
+        if (area > left) [left, leftIndex] = [area, j];
+      }
+      let right = 0;
+      let rightIndex = -1;
+      for (let l = k + 1; l < n + i; l++) {
+        const area = triangle(k, l % n, i);
+        if (area > right) [right, rightIndex] = [area, l % n];
+      }
+      if (leftIndex >= 0 && rightIndex >= 0 && left + right > bestArea) {
+        bestArea = left + right;
+        best = [i, leftIndex, k, rightIndex];
+      }
+    }
+  }
+
+  return best ? best.map((index) => vertices[index]) : null;
+};
+
+/**
+ * Orders corners clockwise starting at the top-left one
+ */
+const orderCorners = (corners: Point[]): Point[] => {
+  const center = {
+    x: corners.reduce((sum, point) => sum + point.x, 0) / corners.length,
+    y: corners.reduce((sum, point) => sum + point.y, 0) / corners.length,
+  };
+  const sorted = [...corners].sort((a, b) =>
+      Math.atan2(a.y - center.y, a.x - center.x) - Math.atan2(b.y - center.y, b.x - center.x));
+  const first = sorted.reduce((best, point, i) =>
+      point.x + point.y < sorted[best].x + sorted[best].y ? i : best, 0);
+  return [...sorted.slice(first), ...sorted.slice(0, first)];
+};
+
+/**
+ * Detects the page quadrilateral in an image, assuming a light page on a darker background
+ * @param source Video frame, canvas or image
+ * @param width Width of the source in px
+ * @param height Height of the source in px
+ * @param minArea Minimum % of the image the page must cover (default 20)
+ * @param canvas Reusable scratch canvas, e.g. when detecting on every frame
+ * @returns Corners in source px, clockwise from top-left, or null when no page was found
+ */
+export const detectDocument = (
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    minArea = DEFAULT_MIN_AREA,
+    canvas: HTMLCanvasElement = document.createElement('canvas')
+): Point[] | null => {
+  const scale = Math.min(1, DETECTION_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  canvas.width = w;
+  canvas.height = h;
+
+  const ctx = canvas.getContext('2d', {willReadFrequently: true});
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const gray = boxBlur(toGray(ctx.getImageData(0, 0, w, h).data, w * h), w, h, 2);
+  const threshold = getOtsuThreshold(gray);
+  const mask = gray.map((value) => value > threshold ? 1 : 0);
+
+  const region = findLargestRegion(mask, w, h);
+  // A region covering (almost) everything is the background, not a page
+  if (region.size < (minArea / 100) * w * h || region.size > 0.98 * w * h) return null;
+
+  const quad = getLargestQuad(getConvexHull(region.edges));
+  if (!quad || getPolygonArea(quad) < (minArea / 100) * w * h) return null;
+
+  return orderCorners(quad).map((point) => ({x: point.x / scale, y: point.y / scale}));
+};
+
+/**
+ * Keeps detecting the page in the video stream
+ * @param video The video element to scan
+ * @param onResult Called with the corners in video frame px, or null when no page is visible
+ * @param config Document configuration (minimum area and detection rate)
+ * @returns A function that stops the detection
+ */
+export const startDocumentDetector = (
+    video: HTMLVideoElement,
+    onResult: (corners: Point[] | null) => void,
+    config: DocumentConfig = {}
+): () => void => {
+  const canvas = document.createElement('canvas');
+  const stop = () => {
+    clearInterval(timer);
+    canvas.width = 0;
+    canvas.height = 0;
+  };
+  const timer = window.setInterval(() => {
+    // The overlay was removed without stopping the detector
+    if (!video.isConnected) {
+      stop();
+      return;
+    }
+    if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) return;
+    try {
+      onResult(detectDocument(video, video.videoWidth, video.videoHeight, config.minArea, canvas));
+    } catch (error) {
+      console.warn('Document detection failed:', error);
+    }
+  }, 1000 / (config.detectionRate ?? DEFAULT_DETECTION_RATE));
+
+  return stop;
+};
+
+// ========== Perspective Correction ==========
+
+/**
+ * Solves the homography mapping the rectangle (0,0)-(width,height) onto the quadrilateral
+ * @returns The 8 coefficients a..h of x' = (ax + by + c) / (gx + hy + 1), y' = (dx + ey + f) / (gx + hy + 1)
+ */
+const getHomography = (corners: Point[], width: number, height: number): number[] => {
+  const targets: Point[] = [{x: 0, y: 0}, {x: width, y: 0}, {x: width, y: height}, {x: 0, y: height}];
+  const rows: number[][] = [];
+  targets.forEach(({x, y}, i) => {
+    const {x: u, y: v} = corners[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    if (Math.abs(rows[column][column]) < 1e-12) throw new Error('Degenerate document corners');
+
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+/**
+ * Straightens the quadrilateral on the canvas into a rectangle, resizing the canvas to the page
+ * @param canvas Canvas holding the full image
+ * @param ctx 2D context of the canvas
+ * @param corners Page corners in canvas px, clockwise from top-left
+ */
+export const warpPerspective = (
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    corners: Point[]
+): void => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+  if (width < 1 || height < 1) return;
+
+  const [a, b, c, d, e, f, g, h] = getHomography(corners, width, height);
+  const srcWidth = canvas.width;
+  const srcHeight = canvas.height;
+  const src = ctx.getImageData(0, 0, srcWidth, srcHeight).data;
+  const output = new ImageData(width, height);
+  const out = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Sample the pixel center, bilinear between the four nearest source pixels
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = g * px + h * py + 1;
+      const sx = Math.min(srcWidth - 1, Math.max(0, (a * px + b * py + c) / w - 0.5));
+      const sy = Math.min(srcHeight - 1, Math.max(0, (d * px + e * py + f) / w - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const i00 = (y0 * srcWidth + x0) * 4;
+      const i10 = (y0 * srcWidth + x1) * 4;
+      const i01 = (y1 * srcWidth + x0) * 4;
+      const i11 = (y1 * srcWidth + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = src[i00 + channel] + (src[i10 + channel] - src[i00 + channel]) * fx;
+        const bottom = src[i01 + channel] + (src[i11 + channel] - src[i01 + channel]) * fx;
+        out[o + channel] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.putImageData(output, 0, 0);
+};
+
+// ========== Document Filters ==========
+
+const hasThreshold = (config: DocumentConfig) => config.threshold !== undefined && config.threshold !== false;
+
+/**
+ * Black and white with a threshold following the local brightness (Bradley), so shadows do not turn into black areas
+ */
+const applyAdaptiveThreshold = (luma: Uint8ClampedArray, width: number, height: number): void => {
+  const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+  // Sums of very large images exceed 32 bits
+  const integral = width * height * 255 > 0xFFFFFFFF
+      ? new Float64Array((width + 1) * (height + 1))
+      : new Uint32Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luma[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      // Ink is noticeably darker than its surroundings
+      luma[y * width + x] = luma[y * width + x] < mean * 0.85 ? 0 : 255;
+    }
+  }
+};
+
+/**
+ * Applies the grayscale, contrast and threshold filters of the document configuration
+ * @param imageData Pixels, modified in place
+ * @param config Document configuration
+ */
+export const applyDocumentFilters = (imageData: ImageData, config: DocumentConfig): void => {
+  const {data, width, height} = imageData;
+  const size = width * height;
+  const monochrome = config.grayscale || hasThreshold(config);
+
+  if (config.enhanceContrast) {
+    // Stretch the 1st..99th luma percentiles to the full range, so paper turns white and ink black
+    const histogram = new Array<number>(256).fill(0);
+    for (let i = 0; i < size; i++) {
+      histogram[(data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8]++;
+    }
+    const percentile = (fraction: number) => {
+      let count = 0;
+      for (let level = 0; level < 256; level++) {
+        count += histogram[level];
+        if (count >= size * fraction) return level;
+      }
+      return 255;
+    };
+    const low = percentile(0.01);
+    const high = percentile(0.99);
+    if (high > low) {
+      const factor = 255 / (high - low);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = (data[i] - low) * factor;
+        data[i + 1] = (data[i + 1] - low) * factor;
+        data[i + 2] = (data[i + 2] - low) * factor;
+      }
+    }
+  }
+
+  if (!monochrome) return;
+
+  const luma = new Uint8ClampedArray(size);
+  for (let i = 0; i < size; i++) {
+    luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+
+  if (typeof config.threshold === 'number') {
+    const level = config.threshold;
+    for (let i = 0; i < size; i++) luma[i] = luma[i] < level ? 0 : 255;
+  } else if (config.threshold) {
+    applyAdaptiveThreshold(luma, width, height);
+  }
+
+  for (let i = 0; i < size; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = luma[i];
+  }
+};
+
+/**
+ * Document mode processing: straightens the page and applies the document filters
+ * @param canvas Canvas holding the full image
+ * @param ctx 2D context of the canvas
+ * @param corners Detected page corners, the whole image is kept when undefined
+ * @param config Document configuration
+ */
+export const processDocument = (
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    corners: Point[] | undefined,
+    config: DocumentConfig = {}
+): void => {
+  if (corners) {
+    warpPerspective(canvas, ctx, corners);
+  }
+
+  if (config.grayscale || hasThreshold(config) || config.enhanceContrast) {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyDocumentFilters(imageData, config);
+    ctx.putImageData(imageData, 0, 0);
+  }
+};
@@ -0,0 +1,199 @@
+import type {
+  AnnotationEdit,
+  CapturedPhoto,
+  EditRect,
+  ImageConfig,
+  ImageType,
+  PhotoEdit,
+  RedactionEdit,
+  RotateEdit
+} from "@/types";
+import {drawImageFile} from "@/utils/image";
+import {createCapturedPhoto} from "@/utils/photo";
+
+export const DEFAULT_REDACTION_SIZE = 0.02;
+export const DEFAULT_STROKE_WIDTH = 0.008;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return {canvas, ctx};
+};
+
+/**
+ * Converts a normalized rectangle into whole pixels inside the canvas, negative sizes are flipped
+ */
+const toPixelRect = (rect: EditRect, width: number, height: number) => {
+  const left = clamp01(Math.min(rect.x, rect.x + rect.width));
+  const top = clamp01(Math.min(rect.y, rect.y + rect.height));
+  const right = clamp01(Math.max(rect.x, rect.x + rect.width));
+  const bottom = clamp01(Math.max(rect.y, rect.y + rect.height));
+  const x = Math.round(left * width);
+  const y = Math.round(top * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(right * width) - x),
+    height: Math.max(1, Math.round(bottom * height) - y),
+  };
+};
+
+const crop = (canvas: HTMLCanvasElement, rect: EditRect): HTMLCanvasElement => {
+  const area = toPixelRect(rect, canvas.width, canvas.height);
+  const target = createCanvas(area.width, area.height);
+  target.ctx.drawImage(canvas, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
+  return target.canvas;
+};
+
+const rotate = (canvas: HTMLCanvasElement, edit: RotateEdit): HTMLCanvasElement => {
+  const quarterTurn = edit.angle !== 180;
+  const target = createCanvas(quarterTurn ? canvas.height : canvas.width, quarterTurn ? canvas.width : canvas.height);
+  target.ctx.translate(target.canvas.width / 2, target.canvas.height / 2);
+  target.ctx.rotate(edit.angle * Math.PI / 180);
+  target.ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return target.canvas;
+};
+
+const annotate = (canvas: HTMLCanvasElement, edit: AnnotationEdit) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || edit.points.length === 0) return;
+
+  const lineWidth = Math.max(1, edit.width * Math.min(canvas.width, canvas.height));
+  const points = edit.points.map((point) => ({x: point.x * canvas.width, y: point.y * canvas.height}));
+
+  ctx.save();
+  ctx.strokeStyle = edit.color;
+  ctx.fillStyle = edit.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  ctx.beginPath();
+  if (edit.type === 'box') {
+    ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else if (edit.type === 'freehand') {
+    ctx.moveTo(start.x, start.y);
+    points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+    // A single tap leaves a dot
+    if (points.length === 1) ctx.lineTo(start.x + 0.01, start.y);
+    ctx.stroke();
+  } else {
+    // The line stops at the base of the head, so the round cap does not poke through the tip
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    const headLength = Math.min(lineWidth * 4, Math.hypot(end.x - start.x, end.y - start.y));
+    const base = {x: end.x - Math.cos(angle) * headLength * 0.8, y: end.y - Math.sin(angle) * headLength * 0.8};
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(base.x, base.y);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(end.x, end.y);
+    ctx.lineTo(end.x - headLength * Math.cos(angle - Math.PI / 6), end.y - headLength * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 6), end.y - headLength * Math.sin(angle + Math.PI / 6));
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+/**
+ * Blurs or pixelates an area by drawing it downscaled and scaling it back up.
+ * Works without `ctx.filter`, which Safari only supports in recent versions.
+ */
+const redact = (canvas: HTMLCanvasElement, edit: RedactionEdit) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const area = toPixelRect(edit, canvas.width, canvas.height);
+  const cell = Math.max(2, Math.round((edit.size ?? DEFAULT_REDACTION_SIZE) * Math.min(canvas.width, canvas.height)));
+  const small = createCanvas(Math.ceil(area.width / cell), Math.ceil(area.height / cell));
+  small.ctx.imageSmoothingQuality = 'high';
+  small.ctx.drawImage(canvas, area.x, area.y, area.width, area.height, 0, 0, small.canvas.width, small.canvas.height);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.clip();
+  if (edit.type === 'pixelate') {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small.canvas, area.x, area.y, small.canvas.width * cell, small.canvas.height * cell);
+  } else {
+    // Upscaling in two steps smooths out the cell edges
+    const medium = createCanvas(small.canvas.width * 4, small.canvas.height * 4);
+    medium.ctx.imageSmoothingQuality = 'high';
+    medium.ctx.drawImage(small.canvas, 0, 0, medium.canvas.width, medium.canvas.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(medium.canvas, area.x, area.y, small.canvas.width * cell, small.canvas.height * cell);
+  }
+  ctx.restore();
+};
+
+/**
+ * Replays edits on an image. Annotations and redactions are drawn onto the given canvas,
+ * crops and rotations produce new canvases.
+ * @param canvas Canvas holding the unedited image
+ * @param edits Edits in the order they were made
+ * @returns The canvas holding the edited image, `canvas` itself when nothing was cropped or rotated
+ */
+export const applyPhotoEdits = (canvas: HTMLCanvasElement, edits: PhotoEdit[]): HTMLCanvasElement => {
+  let result = canvas;
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'crop':
+        result = crop(result, edit);
+        break;
+      case 'rotate':
+        result = rotate(result, edit);
+        break;
+      case 'arrow':
+      case 'box':
+      case 'freehand':
+        annotate(result, edit);
+        break;
+      case 'blur':
+      case 'pixelate':
+        redact(result, edit);
+        break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Applies edits to the unedited image of a photo and encodes the result like the original.
+ * The original is kept in `photo.original`, so edits can be changed or reverted without quality loss.
+ * @param photo Captured photo, possibly edited before
+ * @param edits Complete edit list, replaces earlier edits; empty to revert
+ * @param imageConfig Image type, quality, thumbnail and metadata embedding (default: the type of the original)
+ * @returns A new photo with `metadata.edits` set, the object URLs of the old edited image are not released
+ */
+export const editPhoto = async (
+    photo: CapturedPhoto,
+    edits: PhotoEdit[],
+    imageConfig?: ImageConfig
+): Promise<CapturedPhoto> => {
+  const original = photo.original ?? {src: photo.src, file: photo.file};
+  const source = original.file ?? await (await fetch(original.src)).blob();
+
+  const canvas = document.createElement('canvas');
+  await drawImageFile(source, canvas);
+  const edited = applyPhotoEdits(canvas, edits);
+
+  const metadata = {...photo.metadata, edits: edits.length > 0 ? edits : undefined};
+  const config: ImageConfig = {
+    imageType: source.type as ImageType,
+    ...imageConfig,
+    output: original.file ? 'blob' : 'dataUrl',
+  };
+
+  const result = await createCapturedPhoto(edited, config, metadata);
+  return {...result, original};
+};
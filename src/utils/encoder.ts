@@ -0,0 +1,64 @@
+import type {ImageType} from "@/types";
+
+export const LOSSY_IMAGE_TYPES: readonly ImageType[] = ['image/jpeg', 'image/webp', 'image/avif'];
+export const DEFAULT_FALLBACK_TYPES: readonly ImageType[] = ['image/webp', 'image/jpeg'];
+
+const encoderSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * Checks whether the browser can encode the given type, canvas.toBlob silently falls back to PNG otherwise
+ * @param type Image MIME type
+ * @returns Cached result of encoding a 1x1 canvas
+ */
+export const isEncoderSupported = (type: string): Promise<boolean> => {
+  // Every browser has to support PNG
+  if (type === 'image/png') return Promise.resolve(true);
+
+  let supported = encoderSupport.get(type);
+  if (!supported) {
+    supported = new Promise<boolean>((resolve) => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        canvas.toBlob((blob) => resolve(blob?.type === type), type);
+      } catch {
+        resolve(false);
+      }
+    });
+    encoderSupport.set(type, supported);
+  }
+  return supported;
+};
+
+/**
+ * Returns the first type of the chain the browser can encode
+ * @param preferred Requested image type
+ * @param fallbacks Types tried in order when the requested one is not supported
+ * @returns The type to encode with, 'image/png' when nothing in the chain is supported
+ */
+export const resolveImageType = async (
+    preferred: ImageType,
+    fallbacks: readonly ImageType[] = DEFAULT_FALLBACK_TYPES
+): Promise<ImageType> => {
+  for (const type of [preferred, ...fallbacks]) {
+    if (await isEncoderSupported(type)) {
+      if (type !== preferred) {
+        console.warn(`${preferred} encoding is not supported, falling back to ${type}`);
+      }
+      return type;
+    }
+  }
+
+  console.warn(`None of ${[preferred, ...fallbacks].join(', ')} can be encoded, falling back to image/png`);
+  return 'image/png';
+};
+
+/**
+ * Lists the output types the current browser can encode
+ */
+export const getSupportedImageTypes = async (): Promise<ImageType[]> => {
+  const types: ImageType[] = ['image/png', 'image/jpeg', 'image/webp', 'image/avif'];
+  const supported = await Promise.all(types.map(isEncoderSupported));
+  return types.filter((_, index) => supported[index]);
+};
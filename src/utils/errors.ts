@@ -0,0 +1,183 @@
+import type {GeofenceResult} from "@/types";
+
+export type CameraErrorCode =
+    | 'permission-denied'
+    | 'device-not-found'
+    | 'overconstrained'
+    | 'geolocation-failed'
+    | 'outside-geofence'
+    | 'scan-timeout'
+    | 'processing-failed'
+    | 'upload-failed'
+
+/**
+ * Base class for all errors reported by the camera utility
+ */
+export class CameraError extends Error {
+  readonly code: CameraErrorCode
+
+  constructor(code: CameraErrorCode, message: string, cause?: unknown) {
+    super(message, {cause});
+    this.name = 'CameraError';
+    this.code = code;
+  }
+}
+
+/**
+ * The user or browser policy denied access to the camera
+ */
+export class PermissionDeniedError extends CameraError {
+  constructor(message = 'Camera access was denied.', cause?: unknown) {
+    super('permission-denied', message, cause);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * No camera is available, or the camera is in use by another application
+ */
+export class DeviceNotFoundError extends CameraError {
+  constructor(message = 'No camera device was found.', cause?: unknown) {
+    super('device-not-found', message, cause);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+/**
+ * The requested resolution, frame rate or device cannot be satisfied
+ */
+export class OverconstrainedCameraError extends CameraError {
+  readonly constraint?: string
+
+  constructor(message = 'The camera does not support the requested settings.', cause?: unknown, constraint?: string) {
+    super('overconstrained', message, cause);
+    this.name = 'OverconstrainedCameraError';
+    this.constraint = constraint;
+  }
+}
+
+/**
+ * The device position could not be determined
+ */
+export class GeolocationFailedError extends CameraError {
+  constructor(message = 'Geolocation failed.', cause?: unknown) {
+    super('geolocation-failed', message, cause);
+    this.name = 'GeolocationFailedError';
+  }
+}
+
+/**
+ * The photo was taken outside the configured geofence
+ */
+export class OutsideGeofenceError extends CameraError {
+  readonly result?: GeofenceResult
+
+  constructor(message = 'The photo was taken outside the geofence.', cause?: unknown, result?: GeofenceResult) {
+    super('outside-geofence', message, cause);
+    this.name = 'OutsideGeofenceError';
+    this.result = result;
+  }
+}
+
+/**
+ * No barcode was detected within the configured time
+ */
+export class ScanTimeoutError extends CameraError {
+  constructor(message = 'Barcode detection timed out.', cause?: unknown) {
+    super('scan-timeout', message, cause);
+    this.name = 'ScanTimeoutError';
+  }
+}
+
+/**
+ * Capturing, processing or encoding an image failed
+ */
+export class ProcessingFailedError extends CameraError {
+  constructor(message = 'Image processing failed.', cause?: unknown) {
+    super('processing-failed', message, cause);
+    this.name = 'ProcessingFailedError';
+  }
+}
+
+/**
+ * An upload was rejected by the server or ran out of retries
+ */
+export class UploadFailedError extends CameraError {
+  readonly status?: number
+  readonly retryable: boolean
+
+  constructor(message = 'Upload failed.', cause?: unknown, status?: number, retryable = false) {
+    super('upload-failed', message, cause);
+    this.name = 'UploadFailedError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Normalizes any thrown value into a CameraError
+ * @param error Value caught from getUserMedia, geolocation, scanning or processing
+ * @param fallback Error code used when the value cannot be classified
+ * @returns A CameraError instance (the original one if it already is)
+ */
+export const toCameraError = (
+    error: unknown,
+    fallback: CameraErrorCode = 'processing-failed'
+): CameraError => {
+  if (error instanceof CameraError) return error;
+
+  const message = error instanceof Error
+      ? error.message
+      : (typeof error === 'string' ? error : undefined);
+
+  // Geolocation errors are not Error instances
+  if (typeof GeolocationPositionError !== 'undefined' && error instanceof GeolocationPositionError) {
+    return new GeolocationFailedError(error.message || undefined, error);
+  }
+
+  // getUserMedia failures are DOMExceptions identified by name (legacy Chrome names included)
+  const name = error instanceof Error ? error.name : undefined;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new PermissionDeniedError(undefined, error);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return new DeviceNotFoundError(undefined, error);
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return new DeviceNotFoundError('The camera is already in use by another application.', error);
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return new OverconstrainedCameraError(undefined, error, (error as Error & { constraint?: string }).constraint);
+  }
+
+  switch (fallback) {
+    case 'permission-denied':
+      return new PermissionDeniedError(message, error);
+    case 'device-not-found':
+      return new DeviceNotFoundError(message, error);
+    case 'overconstrained':
+      return new OverconstrainedCameraError(message, error);
+    case 'geolocation-failed':
+      return new GeolocationFailedError(message, error);
+    case 'outside-geofence':
+      return new OutsideGeofenceError(message, error);
+    case 'scan-timeout':
+      return new ScanTimeoutError(message, error);
+    case 'upload-failed':
+      return new UploadFailedError(message, error);
+    default:
+      return new ProcessingFailedError(message, error);
+  }
+};
+
+/**
+ * Opt-in error handler that reports errors through a browser dialog,
+ * matching the behavior of earlier versions
+ * @param error The reported error
+ */
+export const alertErrorHandler = (error: CameraError): void => {
+  window.alert(error.message);
+};
@@ -0,0 +1,596 @@
+import type {BarcodeResult, PhotoMetadata} from "@/types";
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_SEGMENT_PAYLOAD = 0xFFFF - 2;
+
+const NS = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  vcu: 'https://github.com/BlackyTay/vue-camera-utility/xmp/1.0/',
+};
+
+// TIFF field types
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+// Tags, sorted as they have to appear in their IFD
+const TAG = {
+  ImageDescription: 0x010E,
+  Make: 0x010F,
+  Model: 0x0110,
+  Orientation: 0x0112,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  ExifIFD: 0x8769,
+  GPSIFD: 0x8825,
+  ExifVersion: 0x9000,
+  DateTimeOriginal: 0x9003,
+  OffsetTimeOriginal: 0x9011,
+  SubSecTimeOriginal: 0x9291,
+  GPSVersionID: 0x0000,
+  GPSLatitudeRef: 0x0001,
+  GPSLatitude: 0x0002,
+  GPSLongitudeRef: 0x0003,
+  GPSLongitude: 0x0004,
+  GPSAltitudeRef: 0x0005,
+  GPSAltitude: 0x0006,
+} as const;
+
+interface IfdEntry {
+  tag: number
+  type: number
+  value: Uint8Array | number[] // Bytes for BYTE/ASCII/UNDEFINED, numbers otherwise (numerator/denominator pairs for RATIONAL)
+}
+
+type IfdValue = string | number[] | Uint8Array;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const ascii = (value: string): Uint8Array => encoder.encode(`${value}\0`);
+
+const startsWith = (bytes: Uint8Array, prefix: string): boolean => {
+  if (bytes.length < prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// ========== EXIF Writer ==========
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Formats a date as EXIF local time ("YYYY:MM:DD HH:MM:SS") with its UTC offset ("+HH:MM")
+ */
+const formatExifDate = (date: Date) => {
+  const offsetMinutes = -date.getTimezoneOffset();
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  return {
+    dateTime: `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} `
+        + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`,
+    offset: `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`,
+    subSec: pad(date.getMilliseconds(), 3),
+  };
+};
+
+// Brands found at the start of webcam and phone camera labels, the label prefix is matched case-insensitively
+const CAMERA_MAKES: [prefix: string, make: string][] = [
+  ['facetime', 'Apple'], ['logitech', 'Logitech'], ['logi ', 'Logitech'], ['microsoft', 'Microsoft'],
+  ['razer', 'Razer'], ['elgato', 'Elgato'], ['insta360', 'Insta360'], ['obsbot', 'OBSBOT'],
+  ['avermedia', 'AVerMedia'], ['anker', 'Anker'], ['creative', 'Creative'], ['poly', 'Poly'],
+  ['jabra', 'Jabra'], ['dell', 'Dell'], ['hp ', 'HP'], ['lenovo', 'Lenovo'], ['sony', 'Sony'],
+  ['canon', 'Canon'], ['nikon', 'Nikon'], ['fujifilm', 'Fujifilm'], ['gopro', 'GoPro'],
+];
+
+/**
+ * Gets the camera maker for the EXIF Make tag from a camera track label.
+ * Labels without a known brand (e.g. "Integrated Camera", "camera2 0, facing back") are used as they are.
+ * @param label Label of the camera track
+ */
+export const getCameraMake = (label: string): string => {
+  const lower = label.toLowerCase();
+  return CAMERA_MAKES.find(([prefix]) => lower.startsWith(prefix))?.[1] ?? label;
+};
+
+/**
+ * Converts decimal degrees to degrees, minutes and seconds as rational pairs
+ */
+const toDmsRationals = (decimal: number): number[] => {
+  const absolute = Math.abs(decimal);
+  const degrees = Math.floor(absolute);
+  const minutes = Math.floor((absolute - degrees) * 60);
+  const seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 1000);
+  return [degrees, 1, minutes, 1, seconds, 1000];
+};
+
+const valueCount = (entry: IfdEntry): number =>
+    entry.type === RATIONAL ? entry.value.length / 2 : entry.value.length;
+
+const valueSize = (entry: IfdEntry): number => {
+  switch (entry.type) {
+    case SHORT:
+      return entry.value.length * 2;
+    case LONG:
+      return entry.value.length * 4;
+    case RATIONAL:
+      return entry.value.length * 4;
+    default:
+      return entry.value.length;
+  }
+};
+
+// Values larger than 4 bytes are stored after the IFD, word-aligned
+const ifdSize = (entries: IfdEntry[]): number =>
+    2 + entries.length * 12 + 4 + entries
+        .map(valueSize)
+        .filter((size) => size > 4)
+        .reduce((total, size) => total + size + (size % 2), 0);
+
+const writeIfd = (view: DataView, offset: number, entries: IfdEntry[]) => {
+  let dataOffset = offset + 2 + entries.length * 12 + 4;
+
+  view.setUint16(offset, entries.length);
+  entries.forEach((entry, index) => {
+    const entryOffset = offset + 2 + index * 12;
+    const size = valueSize(entry);
+
+    view.setUint16(entryOffset, entry.tag);
+    view.setUint16(entryOffset + 2, entry.type);
+    view.setUint32(entryOffset + 4, valueCount(entry));
+
+    let target = entryOffset + 8;
+    if (size > 4) {
+      view.setUint32(entryOffset + 8, dataOffset);
+      target = dataOffset;
+      dataOffset += size + (size % 2);
+    }
+
+    entry.value.forEach((value: number, i: number) => {
+      switch (entry.type) {
+        case SHORT:
+          view.setUint16(target + i * 2, value);
+          break;
+        case LONG:
+        case RATIONAL:
+          view.setUint32(target + i * 4, value);
+          break;
+        default:
+          view.setUint8(target + i, value);
+      }
+    });
+  });
+  view.setUint32(offset + 2 + entries.length * 12, 0);
+};
+
+/**
+ * Builds the TIFF structure (big-endian) holding IFD0, the Exif IFD and the GPS IFD
+ */
+const buildTiff = (metadata: PhotoMetadata): Uint8Array => {
+  const date = new Date(metadata.timestamp);
+  const hasDate = !Number.isNaN(date.getTime());
+  const exifDate = hasDate ? formatExifDate(date) : null;
+
+  const ifd0: IfdEntry[] = [];
+  if (metadata.caption) ifd0.push({tag: TAG.ImageDescription, type: ASCII, value: ascii(metadata.caption)});
+  const make = metadata.make ?? (metadata.device ? getCameraMake(metadata.device) : undefined);
+  if (make) ifd0.push({tag: TAG.Make, type: ASCII, value: ascii(make)});
+  if (metadata.device) ifd0.push({tag: TAG.Model, type: ASCII, value: ascii(metadata.device)});
+  // The canvas output is always upright
+  ifd0.push({tag: TAG.Orientation, type: SHORT, value: [1]});
+  ifd0.push({tag: TAG.Software, type: ASCII, value: ascii('vue-camera-utility')});
+  if (exifDate) ifd0.push({tag: TAG.DateTime, type: ASCII, value: ascii(exifDate.dateTime)});
+
+  const exifIfd: IfdEntry[] = [{tag: TAG.ExifVersion, type: UNDEFINED, value: encoder.encode('0232')}];
+  if (exifDate) {
+    exifIfd.push({tag: TAG.DateTimeOriginal, type: ASCII, value: ascii(exifDate.dateTime)});
+    exifIfd.push({tag: TAG.OffsetTimeOriginal, type: ASCII, value: ascii(exifDate.offset)});
+    exifIfd.push({tag: TAG.SubSecTimeOriginal, type: ASCII, value: ascii(exifDate.subSec)});
+  }
+
+  const {latitude, longitude, altitude} = metadata.coordinate ?? {};
+  const gpsIfd: IfdEntry[] = [];
+  if (latitude !== undefined && longitude !== undefined) {
+    gpsIfd.push({tag: TAG.GPSVersionID, type: BYTE, value: new Uint8Array([2, 3, 0, 0])});
+    gpsIfd.push({tag: TAG.GPSLatitudeRef, type: ASCII, value: ascii(latitude >= 0 ? 'N' : 'S')});
+    gpsIfd.push({tag: TAG.GPSLatitude, type: RATIONAL, value: toDmsRationals(latitude)});
+    gpsIfd.push({tag: TAG.GPSLongitudeRef, type: ASCII, value: ascii(longitude >= 0 ? 'E' : 'W')});
+    gpsIfd.push({tag: TAG.GPSLongitude, type: RATIONAL, value: toDmsRationals(longitude)});
+    if (altitude !== undefined && altitude !== null) {
+      gpsIfd.push({tag: TAG.GPSAltitudeRef, type: BYTE, value: new Uint8Array([altitude < 0 ? 1 : 0])});
+      gpsIfd.push({tag: TAG.GPSAltitude, type: RATIONAL, value: [Math.round(Math.abs(altitude) * 100), 100]});
+    }
+  }
+
+  // Sub-IFD pointers are filled in once the layout is known
+  const exifPointer: IfdEntry = {tag: TAG.ExifIFD, type: LONG, value: [0]};
+  const gpsPointer: IfdEntry = {tag: TAG.GPSIFD, type: LONG, value: [0]};
+  ifd0.push(exifPointer);
+  if (gpsIfd.length > 0) ifd0.push(gpsPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(exifIfd);
+  const length = gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0);
+  exifPointer.value = [exifOffset];
+  gpsPointer.value = [gpsOffset];
+
+  const tiff = new Uint8Array(length);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4D4D); // "MM", big-endian
+  view.setUint16(2, 42);
+  view.setUint32(4, ifd0Offset);
+  writeIfd(view, ifd0Offset, ifd0);
+  writeIfd(view, exifOffset, exifIfd);
+  if (gpsIfd.length > 0) writeIfd(view, gpsOffset, gpsIfd);
+
+  return tiff;
+};
+
+// ========== XMP Writer ==========
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const buildXmp = (metadata: PhotoMetadata, includeBarcodes = true): string => {
+  const attributes: string[] = [];
+  const elements: string[] = [];
+
+  if (metadata.timestamp) attributes.push(`xmp:CreateDate="${escapeXml(metadata.timestamp)}"`);
+  if (metadata.barcode) attributes.push(`vcu:Barcode="${escapeXml(metadata.barcode)}"`);
+  if (metadata.geofence) {
+    attributes.push(`vcu:GeofenceInside="${metadata.geofence.inside ? 'True' : 'False'}"`);
+    attributes.push(`vcu:GeofenceDistance="${metadata.geofence.distanceMeters}"`);
+  }
+
+  if (metadata.caption) {
+    elements.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.caption)}</rdf:li></rdf:Alt></dc:description>`);
+  }
+
+  if (includeBarcodes && metadata.barcodes?.length) {
+    const items = metadata.barcodes.map((barcode) => {
+      const {x, y, width, height} = barcode.boundingBox;
+      const corners = barcode.cornerPoints.map((point) => `${point.x},${point.y}`).join(';');
+      return `<rdf:li rdf:parseType="Resource">`
+          + `<vcu:Format>${escapeXml(barcode.format)}</vcu:Format>`
+          + `<vcu:Value>${escapeXml(barcode.rawValue)}</vcu:Value>`
+          + `<vcu:BoundingBox>${x},${y},${width},${height}</vcu:BoundingBox>`
+          + `<vcu:CornerPoints>${corners}</vcu:CornerPoints>`
+          + `</rdf:li>`;
+    });
+    elements.push(`<vcu:Barcodes><rdf:Seq>${items.join('')}</rdf:Seq></vcu:Barcodes>`);
+  }
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`
+      + `<x:xmpmeta xmlns:x="adobe:ns:meta/">`
+      + `<rdf:RDF xmlns:rdf="${NS.rdf}">`
+      + `<rdf:Description rdf:about="" xmlns:dc="${NS.dc}" xmlns:xmp="${NS.xmp}" xmlns:vcu="${NS.vcu}" ${attributes.join(' ')}>`
+      + elements.join('')
+      + `</rdf:Description>`
+      + `</rdf:RDF>`
+      + `</x:xmpmeta>`
+      + `<?xpacket end="w"?>`;
+};
+
+const buildSegment = (header: string, body: Uint8Array): Uint8Array => {
+  const payload = concat([encoder.encode(header), body]);
+  if (payload.length > MAX_SEGMENT_PAYLOAD) {
+    throw new Error(`Metadata segment is too large (${payload.length} bytes)`);
+  }
+
+  const segment = new Uint8Array(payload.length + 4);
+  segment[0] = 0xFF;
+  segment[1] = 0xE1;
+  segment[2] = (payload.length + 2) >> 8;
+  segment[3] = (payload.length + 2) & 0xFF;
+  segment.set(payload, 4);
+  return segment;
+};
+
+// ========== JPEG Segments ==========
+
+interface JpegSegment {
+  marker: number
+  bytes: Uint8Array        // Whole segment including marker and length
+  payload: Uint8Array      // Segment data after the length field
+}
+
+/**
+ * Splits the APPn segments at the start of a JPEG from the remaining data
+ */
+const splitJpeg = (jpeg: Uint8Array): { segments: JpegSegment[], rest: Uint8Array } => {
+  if (jpeg[0] !== 0xFF || jpeg[1] !== 0xD8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xFF) {
+    const marker = jpeg[offset + 1];
+    if (marker < 0xE0 || marker > 0xEF) break;
+
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    segments.push({
+      marker,
+      bytes: jpeg.subarray(offset, offset + 2 + length),
+      payload: jpeg.subarray(offset + 4, offset + 2 + length),
+    });
+    offset += 2 + length;
+  }
+
+  return {segments, rest: jpeg.subarray(offset)};
+};
+
+const isExifSegment = (segment: JpegSegment) => segment.marker === 0xE1 && startsWith(segment.payload, EXIF_HEADER);
+const isXmpSegment = (segment: JpegSegment) => segment.marker === 0xE1 && startsWith(segment.payload, XMP_HEADER);
+
+/**
+ * Embeds PhotoMetadata into a JPEG as an EXIF segment (date, GPS, orientation, caption, camera) and an XMP packet
+ * (barcodes, caption, geofence). Existing EXIF and XMP segments are replaced.
+ * @param jpeg JPEG file bytes
+ * @param metadata Metadata to embed
+ * @returns New JPEG file bytes
+ */
+export const embedJpegMetadata = (jpeg: Uint8Array, metadata: PhotoMetadata): Uint8Array => {
+  const {segments, rest} = splitJpeg(jpeg);
+  const kept = segments.filter((segment) => !isExifSegment(segment) && !isXmpSegment(segment));
+
+  const exif = buildSegment(EXIF_HEADER, buildTiff(metadata));
+  let xmp: Uint8Array;
+  try {
+    xmp = buildSegment(XMP_HEADER, encoder.encode(buildXmp(metadata)));
+  } catch {
+    // Very long barcode payloads do not fit into a single segment
+    console.warn('XMP packet too large, omitting the barcode list');
+    xmp = buildSegment(XMP_HEADER, encoder.encode(buildXmp(metadata, false)));
+  }
+
+  // JFIF requires its APP0 segment to come first
+  const jfif = kept[0]?.marker === 0xE0 ? [kept.shift()!.bytes] : [];
+
+  return concat([
+    new Uint8Array([0xFF, 0xD8]),
+    ...jfif,
+    exif,
+    xmp,
+    ...kept.map((segment) => segment.bytes),
+    rest,
+  ]);
+};
+
+// ========== Readers ==========
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, littleEndian: boolean): Map<number, IfdValue> => {
+  const values = new Map<number, IfdValue>();
+  const count = view.getUint16(tiffStart + offset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = tiffStart + offset + 2 + i * 12;
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+
+    const unitSize = type === SHORT ? 2 : type === LONG ? 4 : type === RATIONAL ? 8 : 1;
+    const size = unitSize * valueCount;
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entryOffset + 8, littleEndian) : entryOffset + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    switch (type) {
+      case ASCII:
+        values.set(tag, decoder.decode(new Uint8Array(view.buffer, view.byteOffset + valueOffset, size)).replace(/\0+$/, ''));
+        break;
+      case SHORT:
+        values.set(tag, Array.from({length: valueCount}, (_, j) => view.getUint16(valueOffset + j * 2, littleEndian)));
+        break;
+      case LONG:
+        values.set(tag, Array.from({length: valueCount}, (_, j) => view.getUint32(valueOffset + j * 4, littleEndian)));
+        break;
+      case RATIONAL:
+        values.set(tag, Array.from({length: valueCount}, (_, j) => {
+          const denominator = view.getUint32(valueOffset + j * 8 + 4, littleEndian);
+          return denominator ? view.getUint32(valueOffset + j * 8, littleEndian) / denominator : 0;
+        }));
+        break;
+      default:
+        values.set(tag, new Uint8Array(view.buffer, view.byteOffset + valueOffset, size));
+    }
+  }
+
+  return values;
+};
+
+const fromDms = (value: IfdValue | undefined, ref: IfdValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const decimal = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+/**
+ * Combines EXIF local time, sub-seconds and UTC offset into an ISO timestamp
+ */
+const parseExifDate = (dateTime: IfdValue | undefined, offset?: IfdValue, subSec?: IfdValue): string | undefined => {
+  if (typeof dateTime !== 'string') return undefined;
+  const match = dateTime.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const milliseconds = typeof subSec === 'string' ? subSec.padEnd(3, '0').slice(0, 3) : '000';
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}.${milliseconds}${zone}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const readExif = (payload: Uint8Array, metadata: Partial<PhotoMetadata>) => {
+  const tiffStart = EXIF_HEADER.length;
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+
+  const description = ifd0.get(TAG.ImageDescription);
+  if (typeof description === 'string' && description) metadata.caption = description;
+  const make = ifd0.get(TAG.Make);
+  if (typeof make === 'string' && make) metadata.make = make;
+  const model = ifd0.get(TAG.Model);
+  if (typeof model === 'string' && model) metadata.device = model;
+
+  const exifPointer = ifd0.get(TAG.ExifIFD);
+  if (Array.isArray(exifPointer)) {
+    const exifIfd = readIfd(view, tiffStart, exifPointer[0], littleEndian);
+    metadata.timestamp = parseExifDate(
+        exifIfd.get(TAG.DateTimeOriginal),
+        exifIfd.get(TAG.OffsetTimeOriginal),
+        exifIfd.get(TAG.SubSecTimeOriginal)
+    ) ?? metadata.timestamp;
+  }
+  metadata.timestamp = metadata.timestamp ?? parseExifDate(ifd0.get(TAG.DateTime));
+
+  const gpsPointer = ifd0.get(TAG.GPSIFD);
+  if (Array.isArray(gpsPointer)) {
+    const gpsIfd = readIfd(view, tiffStart, gpsPointer[0], littleEndian);
+    const latitude = fromDms(gpsIfd.get(TAG.GPSLatitude), gpsIfd.get(TAG.GPSLatitudeRef));
+    const longitude = fromDms(gpsIfd.get(TAG.GPSLongitude), gpsIfd.get(TAG.GPSLongitudeRef));
+    const altitude = gpsIfd.get(TAG.GPSAltitude);
+    const altitudeRef = gpsIfd.get(TAG.GPSAltitudeRef);
+
+    if (latitude !== undefined && longitude !== undefined) {
+      metadata.coordinate = {latitude, longitude};
+      if (Array.isArray(altitude)) {
+        const below = altitudeRef instanceof Uint8Array && altitudeRef[0] === 1;
+        metadata.coordinate.altitude = below ? -altitude[0] : altitude[0];
+      }
+    }
+  }
+};
+
+const getXmpProperty = (description: Element, namespace: string, name: string): string | undefined => {
+  if (description.hasAttributeNS(namespace, name)) {
+    return description.getAttributeNS(namespace, name) ?? undefined;
+  }
+  return description.getElementsByTagNameNS(namespace, name)[0]?.textContent ?? undefined;
+};
+
+const readXmp = (payload: Uint8Array, metadata: Partial<PhotoMetadata>) => {
+  if (typeof DOMParser === 'undefined') return;
+
+  const xml = decoder.decode(payload.subarray(XMP_HEADER.length));
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const description = document.getElementsByTagNameNS(NS.rdf, 'Description')[0];
+  if (!description) return;
+
+  metadata.timestamp = metadata.timestamp ?? getXmpProperty(description, NS.xmp, 'CreateDate');
+
+  const caption = description.getElementsByTagNameNS(NS.dc, 'description')[0]
+      ?.getElementsByTagNameNS(NS.rdf, 'li')[0]?.textContent;
+  if (caption) metadata.caption = caption;
+
+  const barcode = getXmpProperty(description, NS.vcu, 'Barcode');
+  if (barcode) metadata.barcode = barcode;
+
+  const geofenceInside = getXmpProperty(description, NS.vcu, 'GeofenceInside');
+  if (geofenceInside) {
+    metadata.geofence = {
+      inside: geofenceInside === 'True',
+      distanceMeters: Number(getXmpProperty(description, NS.vcu, 'GeofenceDistance')) || 0,
+    };
+  }
+
+  const list = description.getElementsByTagNameNS(NS.vcu, 'Barcodes')[0];
+  if (list) {
+    const numbers = (value: string | undefined) => (value ?? '').split(/[,;]/).filter(Boolean).map(Number);
+    metadata.barcodes = Array.from(list.getElementsByTagNameNS(NS.rdf, 'li')).map((item): BarcodeResult => {
+      const [x = 0, y = 0, width = 0, height = 0] = numbers(getXmpProperty(item, NS.vcu, 'BoundingBox'));
+      const corners = numbers(getXmpProperty(item, NS.vcu, 'CornerPoints'));
+      return {
+        format: getXmpProperty(item, NS.vcu, 'Format') ?? 'unknown',
+        rawValue: getXmpProperty(item, NS.vcu, 'Value') ?? '',
+        boundingBox: {x, y, width, height},
+        cornerPoints: Array.from({length: Math.floor(corners.length / 2)}, (_, i) => ({
+          x: corners[i * 2],
+          y: corners[i * 2 + 1],
+        })),
+      };
+    });
+    metadata.barcode = metadata.barcode ?? metadata.barcodes[0]?.rawValue;
+  }
+};
+
+/**
+ * Reads the EXIF and XMP metadata written by embedJpegMetadata (or by cameras, for the standard EXIF fields)
+ * @param jpeg JPEG file bytes
+ * @returns The recovered metadata, null when the image carries neither EXIF nor XMP
+ */
+export const readJpegMetadata = (jpeg: Uint8Array): PhotoMetadata | null => {
+  const {segments} = splitJpeg(jpeg);
+  const exif = segments.find(isExifSegment);
+  const xmp = segments.find(isXmpSegment);
+  if (!exif && !xmp) return null;
+
+  const metadata: Partial<PhotoMetadata> = {};
+  if (exif) {
+    try {
+      readExif(exif.payload, metadata);
+    } catch (error) {
+      console.warn('Could not read EXIF metadata:', error);
+    }
+  }
+  if (xmp) readXmp(xmp.payload, metadata);
+
+  return {...metadata, timestamp: metadata.timestamp ?? ''};
+};
+
+const toBytes = async (image: Blob | ArrayBuffer | Uint8Array | string): Promise<Uint8Array> => {
+  if (image instanceof Uint8Array) return image;
+  if (image instanceof ArrayBuffer) return new Uint8Array(image);
+  if (typeof image === 'string') {
+    // Data URLs and object URLs
+    return new Uint8Array(await (await fetch(image)).arrayBuffer());
+  }
+  return new Uint8Array(await image.arrayBuffer());
+};
+
+/**
+ * Embeds PhotoMetadata into a JPEG blob
+ * @param image JPEG blob or file
+ * @param metadata Metadata to embed
+ * @returns A new JPEG blob
+ */
+export const embedPhotoMetadata = async (image: Blob, metadata: PhotoMetadata): Promise<Blob> => {
+  const bytes = embedJpegMetadata(await toBytes(image), metadata);
+  return new Blob([bytes as BlobPart], {type: 'image/jpeg'});
+};
+
+/**
+ * Reads PhotoMetadata back from a JPEG, e.g. an uploaded CapturedPhoto
+ * @param image JPEG as blob/file, bytes, data URL or object URL
+ * @returns The recovered metadata, null when the image is not a JPEG or carries no metadata
+ */
+export const readPhotoMetadata = async (
+    image: Blob | ArrayBuffer | Uint8Array | string
+): Promise<PhotoMetadata | null> => {
+  try {
+    return readJpegMetadata(await toBytes(image));
+  } catch (error) {
+    console.warn('Could not read photo metadata:', error);
+    return null;
+  }
+};
@@ -0,0 +1,502 @@
+import type {
+  CapturedMedia,
+  CapturedPhoto,
+  ExportManifest,
+  ExportManifestItem,
+  PdfExportConfig,
+  PdfPageSize,
+  ZipExportConfig
+} from "@/types";
+import {ProcessingFailedError} from "@/utils/errors";
+import {canvasToBlob, getFileExtension} from "@/utils/photo";
+import {injectMetadataInfo} from "@/utils/placeholders";
+import {isCapturedVideo} from "@/utils/video";
+
+// Portrait page sizes in pt (1/72 in)
+const PAGE_SIZES: Record<Exclude<PdfPageSize, [number, number]>, [number, number]> = {
+  a4: [595.28, 841.89],
+  a5: [419.53, 595.28],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+const DEFAULT_MARGIN = 36;
+const DEFAULT_FONT_SIZE = 10;
+const DEFAULT_PDF_QUALITY = 0.9;
+const DEFAULT_FOOTER = ['{{caption}}', '{{timestamp}}', '{{coordinate}}'];
+const LINE_HEIGHT = 1.25;
+// Arial shares the metrics of the Helvetica used in the PDF
+const MEASURE_FONT = 'Helvetica, Arial, sans-serif';
+
+const DEFAULT_ZIP_FOLDER = 'photos';
+const DEFAULT_MANIFEST = 'manifest.json';
+const MAX_ZIP_SIZE = 0xFFFFFFFF;
+const MAX_ZIP_ENTRIES = 0xFFFF;
+
+const encoder = new TextEncoder();
+
+const getMediaBlob = async (media: CapturedMedia): Promise<Blob> =>
+    media.file ?? await (await fetch(media.src)).blob();
+
+// ========== PDF ==========
+
+interface PdfImage {
+  data: Uint8Array
+  width: number
+  height: number
+  colorSpace: 'DeviceRGB' | 'DeviceGray'
+}
+
+/**
+ * Reads the size and number of color components from the frame header of a JPEG
+ */
+const readJpegInfo = (bytes: Uint8Array): { width: number, height: number, components: number } | null => {
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return null;
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xFF) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xFF) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    // Start of frame, DHT (C4), JPG (C8) and DAC (CC) share the range
+    if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9],
+      };
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return null;
+};
+
+/**
+ * Loads a photo as JPEG for embedding. JPEGs are embedded as they are, other types are flattened onto white
+ * and re-encoded, as PDF has no decoder for them.
+ */
+const loadPdfImage = async (photo: CapturedPhoto, quality: number): Promise<PdfImage> => {
+  const blob = await getMediaBlob(photo);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // CMYK JPEGs are re-encoded as well, Adobe's inverted CMYK would need a Decode array
+  const info = readJpegInfo(bytes);
+  if (info && (info.components === 1 || info.components === 3)) {
+    return {
+      data: bytes,
+      width: info.width,
+      height: info.height,
+      colorSpace: info.components === 1 ? 'DeviceGray' : 'DeviceRGB',
+    };
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  return {
+    data: new Uint8Array(await jpeg.arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height,
+    colorSpace: 'DeviceRGB',
+  };
+};
+
+// WinAnsiEncoding codes of the characters in 0x80-0x9F, the rest of Latin-1 maps one to one
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8A, '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B,
+  'œ': 0x9C, 'ž': 0x9E, 'Ÿ': 0x9F,
+};
+
+const toWinAnsiCode = (char: string): number | undefined => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 0x20 && code < 0x7F) || (code >= 0xA0 && code <= 0xFF)) return code;
+  return WIN_ANSI_EXTRA[char];
+};
+
+/**
+ * Replaces characters the standard PDF fonts cannot show with '?'
+ */
+const toWinAnsi = (text: string): string =>
+    Array.from(text.replace(/\s+/g, ' '), (char) => toWinAnsiCode(char) !== undefined ? char : '?').join('');
+
+/**
+ * Encodes WinAnsi text as a PDF literal string, bytes outside ASCII are written as octal escapes
+ */
+const toPdfString = (text: string): string => {
+  let result = '';
+  for (const char of text) {
+    const code = toWinAnsiCode(char) ?? 0x3F;
+    if (code === 0x28 || code === 0x29 || code === 0x5C) {
+      result += `\\${char}`;
+    } else if (code > 0x7E) {
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += char;
+    }
+  }
+  return `(${result})`;
+};
+
+/**
+ * Encodes text as a UTF-16BE PDF string, used for document information
+ */
+const toPdfTextString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
+
+/**
+ * Shortens a line with an ellipsis until it fits the width
+ */
+const fitLine = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()}…`;
+};
+
+const toPdfDate = (date: Date): string =>
+    `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+// Numbers in content streams, rounded to 1/100 pt
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Collects PDF objects and writes the cross-reference table
+ */
+const createPdfWriter = () => {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n%');
+  write(new Uint8Array([0xE2, 0xE3, 0xCF, 0xD3, 0x0A]));
+
+  return {
+    writeObject: (id: number, dictionary: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${dictionary}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    },
+    finish: (rootId: number, infoId: number): Blob => {
+      const xrefOffset = length;
+      const entries = offsets.slice(1).map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`);
+      write(`xref\n0 ${offsets.length}\n0000000000 65535 f \n${entries.join('')}`);
+      write(`trailer\n<< /Size ${offsets.length} /Root ${rootId} 0 R /Info ${infoId} 0 R >>\n`);
+      write(`startxref\n${xrefOffset}\n%%EOF\n`);
+      return new Blob(parts as BlobPart[], {type: 'application/pdf'});
+    },
+  };
+};
+
+/**
+ * Combines photos into a PDF with one photo per page, generated entirely in the browser.
+ * JPEG photos are embedded without re-encoding. The footer uses the standard Helvetica font,
+ * which covers Latin-1; other characters are replaced with '?'.
+ * @param photos Photos in page order, e.g. the selection resolved by `open()`
+ * @param config Page size, fit mode, margins and footer
+ * @returns The PDF file
+ */
+export const exportPdf = async (photos: CapturedPhoto[], config: PdfExportConfig = {}): Promise<Blob> => {
+  if (photos.length === 0) {
+    throw new ProcessingFailedError('No photos to export.');
+  }
+
+  const {
+    pageSize = 'a4',
+    orientation = 'auto',
+    fit = 'contain',
+    margin = DEFAULT_MARGIN,
+    fontSize = DEFAULT_FONT_SIZE,
+    imageQuality = DEFAULT_PDF_QUALITY,
+  } = config;
+  const [baseWidth, baseHeight] = Array.isArray(pageSize) ? pageSize : PAGE_SIZES[pageSize];
+  const footer = config.footer === true ? DEFAULT_FOOTER : config.footer || [];
+
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) throw new Error("Could not get canvas context");
+  measureCtx.font = `${fontSize}px ${MEASURE_FONT}`;
+
+  // Catalog, page tree, font and info first, then page, contents and image of every photo
+  const CATALOG = 1, PAGES = 2, FONT = 3, INFO = 4;
+  const pageId = (index: number) => 5 + index * 3;
+
+  const writer = createPdfWriter();
+  writer.writeObject(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`);
+  writer.writeObject(FONT, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  for (const [index, photo] of photos.entries()) {
+    let image: PdfImage;
+    try {
+      image = await loadPdfImage(photo, imageQuality);
+    } catch (error) {
+      throw new ProcessingFailedError(`Could not read photo ${index + 1} for the PDF.`, error);
+    }
+
+    const landscape = orientation === 'landscape' || (orientation === 'auto' && image.width > image.height);
+    const pageWidth = landscape ? Math.max(baseWidth, baseHeight) : Math.min(baseWidth, baseHeight);
+    const pageHeight = landscape ? Math.min(baseWidth, baseHeight) : Math.max(baseWidth, baseHeight);
+
+    const lines = footer.length > 0
+        ? (await injectMetadataInfo(footer, photo.metadata, {locale: config.locale, timeZone: config.timeZone}))
+            .flatMap((line) => line.split('\n'))
+            .map((line) => toWinAnsi(line).trim())
+            .filter(Boolean)
+        : [];
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const footerHeight = lines.length > 0 ? lines.length * lineHeight + fontSize / 2 : 0;
+
+    // Area inside the margins, above the footer (PDF coordinates start at the bottom left)
+    const areaX = margin;
+    const areaY = margin + footerHeight;
+    const areaWidth = pageWidth - margin * 2;
+    const areaHeight = pageHeight - margin * 2 - footerHeight;
+    if (areaWidth <= 0 || areaHeight <= 0) {
+      throw new ProcessingFailedError('The PDF margins and footer leave no room for the photo.');
+    }
+
+    let drawWidth = areaWidth;
+    let drawHeight = areaHeight;
+    if (fit !== 'stretch') {
+      const scale = fit === 'cover'
+          ? Math.max(areaWidth / image.width, areaHeight / image.height)
+          : Math.min(areaWidth / image.width, areaHeight / image.height);
+      drawWidth = image.width * scale;
+      drawHeight = image.height * scale;
+    }
+    const drawX = areaX + (areaWidth - drawWidth) / 2;
+    const drawY = areaY + (areaHeight - drawHeight) / 2;
+
+    const operations = ['q'];
+    if (fit === 'cover') {
+      operations.push(`${num(areaX)} ${num(areaY)} ${num(areaWidth)} ${num(areaHeight)} re W n`);
+    }
+    operations.push(`${num(drawWidth)} 0 0 ${num(drawHeight)} ${num(drawX)} ${num(drawY)} cm /Im0 Do`, 'Q');
+    lines.forEach((line, lineIndex) => {
+      const baseline = margin + (lines.length - 1 - lineIndex) * lineHeight + fontSize / 4;
+      const text = toPdfString(fitLine(measureCtx, line, areaWidth));
+      operations.push(`BT /F1 ${num(fontSize)} Tf ${num(margin)} ${num(baseline)} Td ${text} Tj ET`);
+    });
+    const content = encoder.encode(operations.join('\n'));
+
+    const id = pageId(index);
+    writer.writeObject(id, `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] `
+        + `/Resources << /Font << /F1 ${FONT} 0 R >> /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    writer.writeObject(id + 1, `<< /Length ${content.length} >>`, content);
+    writer.writeObject(id + 2, `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `
+        + `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`, image.data);
+
+    config.onProgress?.(index + 1, photos.length);
+  }
+
+  const kids = photos.map((_, index) => `${pageId(index)} 0 R`).join(' ');
+  writer.writeObject(PAGES, `<< /Type /Pages /Kids [${kids}] /Count ${photos.length} >>`);
+  writer.writeObject(INFO, `<< /Producer (vue-camera-utility) /CreationDate (${toPdfDate(new Date())})`
+      + `${config.title ? ` /Title ${toPdfTextString(config.title)}` : ''} >>`);
+
+  return writer.finish(CATALOG, INFO);
+};
+
+// ========== ZIP ==========
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * MS-DOS time and date fields in local time, as stored in ZIP headers
+ */
+const toDosDateTime = (date: Date): [number, number] => {
+  const year = Math.min(2107, Math.max(1980, date.getFullYear()));
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  ];
+};
+
+/**
+ * Appends -2, -3, ... before the extension until the path is unused
+ */
+const uniquePath = (path: string, used: Set<string>): string => {
+  const dot = path.lastIndexOf('.');
+  const base = dot > path.lastIndexOf('/') + 1 ? path.slice(0, dot) : path;
+  const extension = path.slice(base.length);
+
+  let candidate = path;
+  for (let counter = 2; used.has(candidate); counter++) {
+    candidate = `${base}-${counter}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+interface ZipEntry {
+  path: string
+  data: Uint8Array
+  date: Date
+}
+
+/**
+ * Writes stored (uncompressed) entries, images and videos are compressed already
+ */
+const createZip = (entries: ZipEntry[]): Blob => {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const [time, date] = toDosDateTime(entry.date);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);           // Version needed to extract
+    local.setUint16(6, 0x0800, true);       // UTF-8 file names
+    local.setUint16(8, 0, true);            // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014B50, true);
+    header.setUint16(4, 20, true);          // Version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);     // Offset of the local header, other fields stay 0
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  if (offset + centralSize > MAX_ZIP_SIZE) {
+    throw new ProcessingFailedError('The ZIP archive would exceed 4 GB.');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], {type: 'application/zip'});
+};
+
+/**
+ * Packs photos and videos into a ZIP archive with a JSON manifest of their metadata, generated entirely in the browser
+ * @param media Photos and videos in order, e.g. the selection resolved by `open()`
+ * @param config Folder, file names and manifest name
+ * @returns The ZIP file
+ */
+export const exportZip = async (media: CapturedMedia[], config: ZipExportConfig = {}): Promise<Blob> => {
+  if (media.length === 0) {
+    throw new ProcessingFailedError('No photos to export.');
+  }
+  if (media.length >= MAX_ZIP_ENTRIES) {
+    throw new ProcessingFailedError(`ZIP archives are limited to ${MAX_ZIP_ENTRIES - 1} files.`);
+  }
+
+  const folder = (config.folder ?? DEFAULT_ZIP_FOLDER).replace(/^\/+|\/+$/g, '');
+  const manifestName = config.manifest ?? DEFAULT_MANIFEST;
+  const usedPaths = new Set<string>(manifestName ? [manifestName] : []);
+
+  const entries: ZipEntry[] = [];
+  const items: ExportManifestItem[] = [];
+
+  for (const [index, item] of media.entries()) {
+    let blob: Blob;
+    try {
+      blob = await getMediaBlob(item);
+    } catch (error) {
+      throw new ProcessingFailedError(`Could not read item ${index + 1} for the ZIP archive.`, error);
+    }
+
+    const name = config.fileName?.(item, index)
+        ?? `${String(index + 1).padStart(3, '0')}.${getFileExtension(blob.type)}`;
+    const path = uniquePath(folder ? `${folder}/${name}` : name, usedPaths);
+
+    entries.push({
+      path,
+      data: new Uint8Array(await blob.arrayBuffer()),
+      date: new Date(Date.parse(item.metadata.timestamp) || Date.now()),
+    });
+    items.push({
+      file: path,
+      type: blob.type,
+      size: blob.size,
+      duration: isCapturedVideo(item) ? item.duration : undefined,
+      metadata: item.metadata,
+    });
+
+    config.onProgress?.(index + 1, media.length);
+  }
+
+  if (manifestName) {
+    const manifest: ExportManifest = {version: 1, createdAt: new Date().toISOString(), items};
+    entries.push({path: manifestName, data: encoder.encode(JSON.stringify(manifest, null, 2)), date: new Date()});
+  }
+
+  return createZip(entries);
+};
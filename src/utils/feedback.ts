@@ -0,0 +1,45 @@
+let audioContext: AudioContext | null = null;
+
+/**
+ * Plays a short beep through the Web Audio API
+ * @param frequency Tone frequency in Hz
+ * @param duration Tone duration in milliseconds
+ * @param volume Gain between 0.0 and 1.0
+ */
+export const playBeep = (frequency = 1760, duration = 120, volume = 0.2): void => {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    // Reuse a single context, browsers limit how many can be created
+    audioContext = audioContext ?? new AudioContextClass();
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().catch(() => undefined);
+    }
+
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    gain.gain.value = volume;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + duration / 1000);
+  } catch (error) {
+    console.warn('Beep playback failed:', error);
+  }
+};
+
+/**
+ * Triggers haptic feedback where the Vibration API is available (not on iOS Safari)
+ * @param pattern Vibration duration or pattern in milliseconds
+ */
+export const vibrate = (pattern: number | number[] = 80): void => {
+  if (typeof navigator.vibrate === 'function') {
+    navigator.vibrate(pattern);
+  }
+};
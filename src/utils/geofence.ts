@@ -0,0 +1,84 @@
+import type {GeofenceConfig, GeofenceResult, GeoPoint} from "@/types";
+
+// Mean earth radius in m
+const EARTH_RADIUS = 6371008.8;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Centimeters are far below GPS accuracy
+const roundDistance = (meters: number): number => Math.round(meters * 100) / 100;
+
+/**
+ * Great-circle distance between two positions (haversine formula)
+ * @param a First position
+ * @param b Second position
+ * @returns Distance in m
+ */
+export const getDistance = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Projects a position onto a plane in m, centered on the origin (equirectangular, accurate at site scale)
+ */
+const project = (point: GeoPoint, origin: GeoPoint): [number, number] => {
+  // Shortest way around, so fences crossing the antimeridian keep working
+  const dLng = ((point.longitude - origin.longitude + 540) % 360) - 180;
+  return [
+    toRadians(dLng) * EARTH_RADIUS * Math.cos(toRadians(origin.latitude)),
+    toRadians(point.latitude - origin.latitude) * EARTH_RADIUS,
+  ];
+};
+
+/**
+ * Distance from the origin to the segment a-b, all in projected m
+ */
+const distanceToSegment = ([ax, ay]: [number, number], [bx, by]: [number, number]): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+const checkPolygon = (point: GeoPoint, polygon: GeoPoint[]): GeofenceResult => {
+  if (polygon.length < 3) {
+    throw new Error('A geofence polygon needs at least 3 points');
+  }
+
+  const vertices = polygon.map((vertex) => project(vertex, point));
+  let inside = false;
+  let distance = Infinity;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+
+    // Ray casting along the positive x axis from the point (the origin)
+    if ((yi > 0) !== (yj > 0) && 0 < xj + (xi - xj) * (0 - yj) / (yi - yj)) {
+      inside = !inside;
+    }
+    distance = Math.min(distance, distanceToSegment(vertices[j], vertices[i]));
+  }
+
+  return {inside, distanceMeters: inside ? 0 : roundDistance(distance)};
+};
+
+/**
+ * Checks whether a position lies within a geofence
+ * @param point Position to check
+ * @param fence Circle (center and radius) or polygon
+ * @returns Whether the position is inside, and its distance in m from the boundary (0 when inside)
+ */
+export const checkGeofence = (point: GeoPoint, fence: GeofenceConfig): GeofenceResult => {
+  if ('polygon' in fence) {
+    return checkPolygon(point, fence.polygon);
+  }
+
+  const distance = getDistance(point, fence.center) - fence.radius;
+  return {inside: distance <= 0, distanceMeters: roundDistance(Math.max(0, distance))};
+};
@@ -1,14 +1,166 @@
+import type {Address, Coordinate, GeolocationConfig, ReverseGeocodeHook} from "@/types";
+import {GeolocationFailedError} from "@/utils/errors";
+
 export const getGeolocation = (
   options: PositionOptions = {}
 ): Promise<GeolocationPosition> => {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
-      reject(new Error('Geolocation is not supported by this browser.'))
+      reject(new GeolocationFailedError('Geolocation is not supported by this browser.'))
       return
     }
 
     navigator.geolocation.getCurrentPosition(resolve, (err) => {
-      reject(err.message ? err.message : String(err))
+      reject(new GeolocationFailedError(err.message ? err.message : String(err), err))
     }, options)
   })
-}
\ No newline at end of file
+}
+
+/**
+ * Converts a position into the Coordinate stored in photo metadata
+ * @param position Position reported by the Geolocation API
+ */
+export const toCoordinate = (position: GeolocationPosition): Coordinate => {
+  const {latitude, longitude, accuracy, altitude, altitudeAccuracy, heading, speed} = position.coords
+  return {
+    latitude,
+    longitude,
+    accuracy,
+    altitude: altitude ?? undefined,
+    altitudeAccuracy: altitudeAccuracy ?? undefined,
+    // heading is NaN while the device is not moving
+    heading: heading === null || Number.isNaN(heading) ? undefined : heading,
+    speed: speed ?? undefined,
+    timestamp: new Date(position.timestamp).toISOString(),
+  }
+}
+
+export interface LocationTracker {
+  start: () => void
+  stop: () => void
+  getPosition: () => Promise<GeolocationPosition>
+}
+
+/**
+ * Tracks the position with watchPosition so a fix is ready when a photo is taken
+ * @param config Geolocation options with accuracy requirements
+ * @returns Tracker, call start() to warm up and stop() when done
+ */
+export const createLocationTracker = (config: GeolocationConfig): LocationTracker => {
+  const {minAccuracy, waitForAccuracy = 0, maximumAge = 30000} = config
+  const options: PositionOptions = {
+    enableHighAccuracy: config.enableHighAccuracy,
+    timeout: config.timeout,
+    maximumAge,
+  }
+
+  let watchId: number | null = null
+  let latest: GeolocationPosition | null = null
+  let lastError: GeolocationPositionError | null = null
+  const listeners = new Set<() => void>()
+
+  const isFresh = (position: GeolocationPosition) => Date.now() - position.timestamp <= maximumAge
+  const isAccurate = (position: GeolocationPosition) =>
+    minAccuracy === undefined || position.coords.accuracy <= minAccuracy
+
+  const start = () => {
+    if (watchId !== null || !navigator.geolocation) return
+
+    watchId = navigator.geolocation.watchPosition((position) => {
+      latest = position
+      lastError = null
+      listeners.forEach((listener) => listener())
+    }, (err) => {
+      lastError = err
+      listeners.forEach((listener) => listener())
+    }, options)
+  }
+
+  const stop = () => {
+    if (watchId !== null) {
+      navigator.geolocation.clearWatch(watchId)
+      watchId = null
+    }
+  }
+
+  const accuracyError = (position: GeolocationPosition) => new GeolocationFailedError(
+    `Location accuracy of ${Math.round(position.coords.accuracy)} m does not meet the required ${minAccuracy} m.`
+  )
+
+  /**
+   * Waits for watch updates until a fix meets minAccuracy or the wait time is over
+   */
+  const waitForFix = (waitTime: number): Promise<GeolocationPosition> => {
+    const wasWatching = watchId !== null
+    start()
+
+    return new Promise<GeolocationPosition>((resolve, reject) => {
+      let best = latest && isFresh(latest) ? latest : null
+
+      const finish = (error?: Error) => {
+        clearTimeout(timer)
+        listeners.delete(onUpdate)
+        if (!wasWatching) stop()
+
+        if (error) reject(error)
+        else if (best && isAccurate(best)) resolve(best)
+        else if (best) reject(accuracyError(best))
+        else if (lastError) reject(new GeolocationFailedError(lastError.message || String(lastError), lastError))
+        else reject(new GeolocationFailedError('Timed out waiting for a location fix.'))
+      }
+
+      const onUpdate = () => {
+        if (latest && (!best || latest.coords.accuracy <= best.coords.accuracy)) {
+          best = latest
+        }
+        if (best && isAccurate(best)) {
+          finish()
+        } else if (lastError && lastError.code === lastError.PERMISSION_DENIED) {
+          // Waiting longer will not help
+          finish(new GeolocationFailedError(lastError.message || String(lastError), lastError))
+        }
+      }
+
+      const timer = setTimeout(() => finish(), waitTime)
+      listeners.add(onUpdate)
+    })
+  }
+
+  const getPosition = async (): Promise<GeolocationPosition> => {
+    if (latest && isFresh(latest) && isAccurate(latest)) return latest
+
+    if (waitForAccuracy > 0) {
+      return waitForFix(waitForAccuracy)
+    }
+
+    const position = latest && isFresh(latest) ? latest : await getGeolocation(options)
+    if (!isAccurate(position)) throw accuracyError(position)
+    return position
+  }
+
+  return {start, stop, getPosition}
+}
+
+/**
+ * Wraps a reverse geocoding hook, repeated lookups for (nearly) the same place reuse the previous result
+ * @param hook Application supplied geocoder
+ * @param precision Decimal places of latitude and longitude that make up the cache key (4 ≈ 11 m)
+ */
+export const createReverseGeocoder = (hook: ReverseGeocodeHook, precision = 4) => {
+  let lastKey: string | null = null
+  let lastResult: Promise<Address | undefined> | null = null
+
+  return (coordinate: Coordinate): Promise<Address | undefined> => {
+    const key = `${coordinate.latitude?.toFixed(precision)},${coordinate.longitude?.toFixed(precision)}`
+    if (key !== lastKey || !lastResult) {
+      lastKey = key
+      lastResult = Promise.resolve(hook(coordinate)).then((result) =>
+        typeof result === 'string' ? {formatted: result} : result ?? undefined)
+      // Do not cache failures
+      lastResult.catch(() => {
+        lastKey = null
+      })
+    }
+    return lastResult
+  }
+}
@@ -1,4 +1,100 @@
-import {ImageConfig, MetadataType, PhotoMetadata, WatermarkConfig, WatermarkValue} from "@/types";
+import {
+  DocumentConfig,
+  ElementPosition,
+  ImageConfig,
+  ImageWatermarkConfig,
+  PhotoMetadata,
+  PlaceholderOptions,
+  Point,
+  QrWatermarkConfig,
+  WatermarkConfig,
+  WatermarkImageSource,
+  WatermarkLayer,
+  WatermarkPlacement,
+  WatermarkValue
+} from "@/types";
+import qrcode from "qrcode-generator";
+import {injectMetadataInfo} from "@/utils/placeholders";
+import {processDocument} from "@/utils/document";
+
+/**
+ * Draws an image file onto the given canvas at its natural size, honoring EXIF orientation
+ * @param file Image file or blob
+ * @param canvas Target canvas, resized to the image
+ * @returns The canvas 2D context
+ */
+export const drawImageFile = async (
+    file: Blob,
+    canvas: HTMLCanvasElement
+): Promise<CanvasRenderingContext2D> => {
+  if (file.type && !file.type.startsWith('image/')) {
+    throw new Error(`Unsupported file type: ${file.type}`);
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  if (typeof createImageBitmap === 'function') {
+    const bitmap = await createImageBitmap(file, {imageOrientation: 'from-image'});
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx;
+  }
+
+  // Fallback for browsers without createImageBitmap
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    ctx.drawImage(image, 0, 0);
+    return ctx;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Measures how sharp an image is as the variance of its Laplacian, higher is sharper.
+ * Only a centered square is measured, at full resolution so motion blur is not scaled away.
+ * @param canvas Canvas holding the image
+ * @param size Side of the measured square in px (default 512)
+ * @returns The variance, only comparable between images of the same scene and size
+ */
+export const measureSharpness = (canvas: HTMLCanvasElement, size = 512): number => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const width = Math.min(size, canvas.width);
+  const height = Math.min(size, canvas.height);
+  if (width < 3 || height < 3) return 0;
+
+  const {data} = ctx.getImageData(
+      Math.floor((canvas.width - width) / 2), Math.floor((canvas.height - height) / 2), width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+
+  // 4-neighbour Laplacian over the inner pixels
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+    }
+  }
+  const count = (width - 2) * (height - 2);
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
 
 /**
  * Processes an image directly on the given canvas
@@ -6,12 +102,14 @@ import {ImageConfig, MetadataType, PhotoMetadata, WatermarkConfig, WatermarkValu
  * @param ctx Canvas 2D context
  * @param imgConfig Image configuration
  * @param metadata
+ * @param documentOptions Page corners and filters, only in document mode
  */
 export const processImageInPlace = async (
     canvas: HTMLCanvasElement,
     ctx: CanvasRenderingContext2D,
     imgConfig: ImageConfig,
-    metadata?: PhotoMetadata
+    metadata?: PhotoMetadata,
+    documentOptions?: { corners?: Point[], config?: DocumentConfig }
 ): Promise<void> => {
   let imageData: ImageData;
   let processedImageData: ImageData;
@@ -32,6 +130,11 @@ export const processImageInPlace = async (
     }
   }
 
+  // Straighten and clean up the page first, size and transforms then apply to the page only
+  if (documentOptions) {
+    processDocument(canvas, ctx, documentOptions.corners, documentOptions.config);
+  }
+
   // Get original dimensions
   const srcWidth = canvas.width;
   const srcHeight = canvas.height;
@@ -189,9 +292,13 @@ export const processImageInPlace = async (
     }
   }
 
-  // Apply watermark if specified
+  // Apply watermark layers if specified, in order
   if (imgConfig.watermark) {
-    await applyWatermark(ctx, canvas.width, canvas.height, imgConfig.watermark, metadata);
+    const layers = Array.isArray(imgConfig.watermark) ? imgConfig.watermark : [imgConfig.watermark];
+    const placeholderOptions: PlaceholderOptions = {locale: imgConfig.locale, timeZone: imgConfig.timeZone};
+    for (const layer of layers) {
+      await applyWatermarkLayer(ctx, canvas.width, canvas.height, layer, metadata, placeholderOptions);
+    }
   }
 
   // Apply the afterProcess hook if provided
@@ -211,6 +318,96 @@ export const processImageInPlace = async (
   }
 };
 
+/**
+ * Draws a single watermark layer
+ * @param ctx Canvas context
+ * @param canvasWidth Width of the canvas
+ * @param canvasHeight Height of the canvas
+ * @param layer Text, image or QR layer
+ * @param metadata Photo metadata to inject into text and QR layers
+ * @param placeholderOptions Locale and time zone for placeholders
+ */
+const applyWatermarkLayer = async (
+    ctx: CanvasRenderingContext2D,
+    canvasWidth: number,
+    canvasHeight: number,
+    layer: WatermarkLayer,
+    metadata?: PhotoMetadata,
+    placeholderOptions?: PlaceholderOptions
+): Promise<void> => {
+  switch (layer.type) {
+    case 'image':
+      return applyImageWatermark(ctx, canvasWidth, canvasHeight, layer);
+    case 'qr':
+      return applyQrWatermark(ctx, canvasWidth, canvasHeight, layer, metadata, placeholderOptions);
+    default:
+      return applyWatermark(ctx, canvasWidth, canvasHeight, layer, metadata, placeholderOptions);
+  }
+};
+
+/**
+ * Converts padding or margin values to pixels
+ * @param spacing Padding or margin configuration
+ * @param canvasWidth Reference for left and right
+ * @param canvasHeight Reference for top and bottom
+ */
+const resolveSpacing = (spacing: ElementPosition | undefined, canvasWidth: number, canvasHeight: number) => ({
+  top: spacing?.top ? convertElementSizeToPixels(spacing.top, canvasHeight) : 0,
+  right: spacing?.right ? convertElementSizeToPixels(spacing.right, canvasWidth) : 0,
+  bottom: spacing?.bottom ? convertElementSizeToPixels(spacing.bottom, canvasHeight) : 0,
+  left: spacing?.left ? convertElementSizeToPixels(spacing.left, canvasWidth) : 0
+});
+
+/**
+ * Calculates the top-left corner of a watermark box from its alignment and margin
+ * @param placement Layer alignment
+ * @param canvasWidth Width of the canvas
+ * @param canvasHeight Height of the canvas
+ * @param boxWidth Width of the watermark box
+ * @param boxHeight Height of the watermark box
+ * @param margin Margin in pixels
+ */
+const getWatermarkPosition = (
+    placement: WatermarkPlacement,
+    canvasWidth: number,
+    canvasHeight: number,
+    boxWidth: number,
+    boxHeight: number,
+    margin: ReturnType<typeof resolveSpacing>
+): { x: number, y: number } => {
+  let x: number;
+  switch (placement.horizontalAlign) {
+    case 'left':
+      x = margin.left;
+      break;
+    case 'center':
+      x = (canvasWidth - boxWidth) / 2;
+      break;
+    case 'right':
+      x = canvasWidth - boxWidth - margin.right;
+      break;
+    default:
+      x = margin.left;
+  }
+
+  let y: number;
+  switch (placement.verticalAlign) {
+    case 'top':
+      y = margin.top;
+      break;
+    case 'center':
+      y = (canvasHeight - boxHeight) / 2;
+      break;
+    case 'bottom':
+      y = canvasHeight - boxHeight - margin.bottom;
+      break;
+    default:
+      y = canvasHeight - boxHeight - margin.bottom;
+  }
+
+  return {x, y};
+};
+
 /**
  * Applies a watermark to the image
  * @param ctx Canvas context
@@ -218,18 +415,21 @@ export const processImageInPlace = async (
  * @param canvasHeight Height of the canvas
  * @param watermarkConfig Watermark configuration
  * @param metadata Photo metadata to inject into watermark
+ * @param placeholderOptions Locale and time zone for placeholders
  */
 const applyWatermark = async (
     ctx: CanvasRenderingContext2D,
     canvasWidth: number,
     canvasHeight: number,
     watermarkConfig: WatermarkConfig,
-    metadata?: PhotoMetadata
+    metadata?: PhotoMetadata,
+    placeholderOptions?: PlaceholderOptions
 ): Promise<void> => {
   // Get watermark text content
   const text = await injectMetadataInfo(
       await getWatermarkText(watermarkConfig.value),
-      metadata
+      metadata,
+      placeholderOptions
   );
 
   if (!text.length) return;
@@ -267,21 +467,9 @@ const applyWatermark = async (
   // Calculate single line height based on font metrics
   let lineHeight = ascent + descent;
 
-  // Get padding values
-  const padding = {
-    top: watermarkConfig.padding?.top ? convertElementSizeToPixels(watermarkConfig.padding.top, canvasHeight) : 0,
-    right: watermarkConfig.padding?.right ? convertElementSizeToPixels(watermarkConfig.padding.right, canvasWidth) : 0,
-    bottom: watermarkConfig.padding?.bottom ? convertElementSizeToPixels(watermarkConfig.padding.bottom, canvasHeight) : 0,
-    left: watermarkConfig.padding?.left ? convertElementSizeToPixels(watermarkConfig.padding.left, canvasWidth) : 0
-  };
-
-  // Get margin values
-  const margin = {
-    top: watermarkConfig.margin?.top ? convertElementSizeToPixels(watermarkConfig.margin.top, canvasHeight) : 0,
-    right: watermarkConfig.margin?.right ? convertElementSizeToPixels(watermarkConfig.margin.right, canvasWidth) : 0,
-    bottom: watermarkConfig.margin?.bottom ? convertElementSizeToPixels(watermarkConfig.margin.bottom, canvasHeight) : 0,
-    left: watermarkConfig.margin?.left ? convertElementSizeToPixels(watermarkConfig.margin.left, canvasWidth) : 0
-  };
+  // Get padding and margin values
+  const padding = resolveSpacing(watermarkConfig.padding, canvasWidth, canvasHeight);
+  const margin = resolveSpacing(watermarkConfig.margin, canvasWidth, canvasHeight);
 
   // Calculate text content area height (space needed for all lines)
   const contentHeight = text.length * lineHeight;
@@ -310,35 +498,7 @@ const applyWatermark = async (
   }
 
   // Calculate watermark position
-  let x: number;
-  switch (watermarkConfig.horizontalAlign) {
-    case 'left':
-      x = margin.left;
-      break;
-    case 'center':
-      x = (canvasWidth - watermarkWidth) / 2;
-      break;
-    case 'right':
-      x = canvasWidth - watermarkWidth - margin.right;
-      break;
-    default:
-      x = margin.left;
-  }
-
-  let y: number;
-  switch (watermarkConfig.verticalAlign) {
-    case 'top':
-      y = margin.top;
-      break;
-    case 'center':
-      y = (canvasHeight - watermarkHeight) / 2;
-      break;
-    case 'bottom':
-      y = canvasHeight - watermarkHeight - margin.bottom;
-      break;
-    default:
-      y = canvasHeight - watermarkHeight - margin.bottom;
-  }
+  const {x, y} = getWatermarkPosition(watermarkConfig, canvasWidth, canvasHeight, watermarkWidth, watermarkHeight, margin);
 
   // Apply opacity if specified
   if (watermarkConfig.opacity !== undefined) {
@@ -410,6 +570,215 @@ const applyWatermark = async (
   ctx.restore();
 };
 
+// Loaded images are reused across captures
+const watermarkImageCache = new Map<string, Promise<HTMLImageElement>>();
+
+/**
+ * Loads an image watermark source into something drawable
+ * @param source URL, blob or already decoded image
+ * @returns The drawable image and its natural size
+ */
+const loadWatermarkImage = async (
+    source: WatermarkImageSource
+): Promise<{ image: CanvasImageSource, width: number, height: number }> => {
+  if (typeof source === 'string') {
+    let loading = watermarkImageCache.get(source);
+    if (!loading) {
+      const image = new Image();
+      // Without CORS the canvas gets tainted and can no longer be exported
+      image.crossOrigin = 'anonymous';
+      image.src = source;
+      loading = image.decode().then(() => image);
+      loading.catch(() => watermarkImageCache.delete(source));
+      watermarkImageCache.set(source, loading);
+    }
+    const image = await loading;
+    return {image, width: image.naturalWidth, height: image.naturalHeight};
+  }
+
+  if (source instanceof Blob) {
+    const bitmap = await createImageBitmap(source);
+    return {image: bitmap, width: bitmap.width, height: bitmap.height};
+  }
+
+  if (source instanceof HTMLImageElement) {
+    if (!source.complete) await source.decode();
+    return {image: source, width: source.naturalWidth, height: source.naturalHeight};
+  }
+
+  return {image: source, width: source.width, height: source.height};
+};
+
+/**
+ * Resolves the box of a watermark whose content has a fixed aspect ratio (images, QR codes)
+ * @param placement Layer placement
+ * @param canvasWidth Width of the canvas
+ * @param canvasHeight Height of the canvas
+ * @param naturalWidth Content width used when no size is configured
+ * @param naturalHeight Content height used when no size is configured
+ */
+const resolveContentBox = (
+    placement: WatermarkPlacement,
+    canvasWidth: number,
+    canvasHeight: number,
+    naturalWidth: number,
+    naturalHeight: number
+) => {
+  const padding = resolveSpacing(placement.padding, canvasWidth, canvasHeight);
+  const margin = resolveSpacing(placement.margin, canvasWidth, canvasHeight);
+  const horizontalPadding = padding.left + padding.right;
+  const verticalPadding = padding.top + padding.bottom;
+  const aspectRatio = naturalWidth / naturalHeight;
+
+  let boxWidth: number;
+  let boxHeight: number;
+  if (placement.width && placement.height) {
+    boxWidth = convertElementSizeToPixels(placement.width, canvasWidth);
+    boxHeight = convertElementSizeToPixels(placement.height, canvasHeight);
+  } else if (placement.width) {
+    boxWidth = convertElementSizeToPixels(placement.width, canvasWidth);
+    boxHeight = Math.max(0, boxWidth - horizontalPadding) / aspectRatio + verticalPadding;
+  } else if (placement.height) {
+    boxHeight = convertElementSizeToPixels(placement.height, canvasHeight);
+    boxWidth = Math.max(0, boxHeight - verticalPadding) * aspectRatio + horizontalPadding;
+  } else {
+    boxWidth = naturalWidth + horizontalPadding;
+    boxHeight = naturalHeight + verticalPadding;
+  }
+
+  const {x, y} = getWatermarkPosition(placement, canvasWidth, canvasHeight, boxWidth, boxHeight, margin);
+
+  return {
+    x,
+    y,
+    width: boxWidth,
+    height: boxHeight,
+    content: {
+      x: x + padding.left,
+      y: y + padding.top,
+      width: Math.max(0, boxWidth - horizontalPadding),
+      height: Math.max(0, boxHeight - verticalPadding),
+    },
+  };
+};
+
+/**
+ * Draws an image watermark, e.g. a company logo
+ * @param ctx Canvas context
+ * @param canvasWidth Width of the canvas
+ * @param canvasHeight Height of the canvas
+ * @param layer Image layer configuration
+ */
+const applyImageWatermark = async (
+    ctx: CanvasRenderingContext2D,
+    canvasWidth: number,
+    canvasHeight: number,
+    layer: ImageWatermarkConfig
+): Promise<void> => {
+  const {image, width, height} = await loadWatermarkImage(layer.source);
+  if (!width || !height) return;
+
+  const box = resolveContentBox(layer, canvasWidth, canvasHeight, width, height);
+  const {content} = box;
+
+  // Source and destination rectangles for the configured fit
+  let sx = 0, sy = 0, sWidth = width, sHeight = height;
+  let dx = content.x, dy = content.y, dWidth = content.width, dHeight = content.height;
+  const fit = layer.fit ?? 'contain';
+  if (fit === 'contain') {
+    const scale = Math.min(content.width / width, content.height / height);
+    dWidth = width * scale;
+    dHeight = height * scale;
+    dx += (content.width - dWidth) / 2;
+    dy += (content.height - dHeight) / 2;
+  } else if (fit === 'cover') {
+    const scale = Math.max(content.width / width, content.height / height);
+    sWidth = content.width / scale;
+    sHeight = content.height / scale;
+    sx = (width - sWidth) / 2;
+    sy = (height - sHeight) / 2;
+  }
+
+  ctx.save();
+  if (layer.opacity !== undefined) {
+    ctx.globalAlpha = layer.opacity;
+  }
+  if (layer.backgroundColor) {
+    ctx.fillStyle = layer.backgroundColor;
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+  }
+  ctx.drawImage(image, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+  ctx.restore();
+
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap && !(layer.source instanceof ImageBitmap)) {
+    image.close();
+  }
+};
+
+/**
+ * Draws a generated QR code, e.g. linking to the record the photo belongs to
+ * @param ctx Canvas context
+ * @param canvasWidth Width of the canvas
+ * @param canvasHeight Height of the canvas
+ * @param layer QR layer configuration
+ * @param metadata Photo metadata to inject into the encoded value
+ * @param placeholderOptions Locale and time zone for placeholders
+ */
+const applyQrWatermark = async (
+    ctx: CanvasRenderingContext2D,
+    canvasWidth: number,
+    canvasHeight: number,
+    layer: QrWatermarkConfig,
+    metadata?: PhotoMetadata,
+    placeholderOptions?: PlaceholderOptions
+): Promise<void> => {
+  const lines = await injectMetadataInfo(await getWatermarkText(layer.value), metadata, placeholderOptions);
+  const value = lines.join('\n');
+  if (!value) return;
+
+  const qr = qrcode(0, layer.errorCorrection ?? 'M');
+  // qrcode-generator maps every character to one byte, so pass the UTF-8 bytes as characters
+  qr.addData(String.fromCharCode(...new TextEncoder().encode(value)), 'Byte');
+  qr.make();
+  const moduleCount = qr.getModuleCount();
+
+  // Default to 20% of the shorter canvas side
+  const defaultSize = Math.min(canvasWidth, canvasHeight) * 0.2;
+  const box = resolveContentBox(
+      layer.width || layer.height ? layer : {...layer, width: {unit: 'px', value: defaultSize}},
+      canvasWidth,
+      canvasHeight,
+      1,
+      1
+  );
+
+  // Whole pixels per module keep the code sharp and scannable
+  const side = Math.min(box.content.width, box.content.height);
+  const moduleSize = Math.max(1, Math.floor(side / moduleCount));
+  const qrSize = moduleSize * moduleCount;
+  const qrX = Math.round(box.content.x + (box.content.width - qrSize) / 2);
+  const qrY = Math.round(box.content.y + (box.content.height - qrSize) / 2);
+
+  ctx.save();
+  if (layer.opacity !== undefined) {
+    ctx.globalAlpha = layer.opacity;
+  }
+
+  // QR codes need a light background, the padding acts as quiet zone
+  ctx.fillStyle = layer.backgroundColor ?? '#ffffff';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+
+  ctx.fillStyle = layer.color ?? '#000000';
+  for (let row = 0; row < moduleCount; row++) {
+    for (let col = 0; col < moduleCount; col++) {
+      if (qr.isDark(row, col)) {
+        ctx.fillRect(qrX + col * moduleSize, qrY + row * moduleSize, moduleSize, moduleSize);
+      }
+    }
+  }
+  ctx.restore();
+};
+
 /**
  * Gets watermark text from various possible value types
  * @param value Watermark value configuration
@@ -465,162 +834,3 @@ const convertElementSizeToPixels = (size: { unit: string; value: number }, refer
       return size.value;
   }
 };
-
-/**
- * Injects actual metadata values into watermark text strings
- * @param textArray Array of text strings that may contain metadata placeholders
- * @param metadata Photo metadata to inject
- * @returns Text array with metadata placeholders replaced with actual values, filtering out lines with undefined values
- */
-export const injectMetadataInfo = async (
-  textArray: string[], 
-  metadata?: PhotoMetadata
-): Promise<string[]> => {
-  if (!metadata) return textArray;
-  
-  // Process and filter each line of text
-  return textArray
-    .map(text => {
-      // Define pattern to match {{metadataType}} placeholders
-      const metadataPattern = /\{\{([a-zA-Z0-9_-]+)(?::([^}]+))?\}\}/g;
-      let hasUndefinedValue = false;
-      
-      // Replace all matches in the text
-      const processedText = text.replace(metadataPattern, (match, type: string, format?: string) => {
-        let result = '';
-        
-        // Handle different metadata types
-        switch (type as MetadataType) {
-          case 'timestamp':
-            if (!metadata.timestamp) {
-              hasUndefinedValue = true;
-              return '';
-            }
-            
-            // Format the timestamp based on optional format parameter
-            try {
-              const date = new Date(metadata.timestamp);
-              if (format) {
-                result = formatDate(date, format);
-              } else {
-                result = date.toLocaleString();
-              }
-            } catch (e) {
-              console.warn('Error formatting timestamp:', e);
-              result = metadata.timestamp;
-            }
-            break;
-            
-          case 'coordinate':
-            if (!metadata.coordinate?.latitude || !metadata.coordinate?.longitude) {
-              hasUndefinedValue = true;
-              return '';
-            }
-            
-            // Format coordinates based on optional format parameter
-            const lat = metadata.coordinate.latitude;
-            const lng = metadata.coordinate.longitude;
-            
-            if (format === 'dms') {
-              // Degrees, minutes, seconds format
-              result = `${convertToDMS(lat, 'lat')}, ${convertToDMS(lng, 'lng')}`;
-            } else if (format?.includes('precision')) {
-              // Custom precision format
-              const precision = parseInt(format.split(':')[1]) || 6;
-              result = `${lat.toFixed(precision)}, ${lng.toFixed(precision)}`;
-            } else {
-              // Default decimal format
-              result = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-            }
-            break;
-            
-          case 'barcode':
-            if (!metadata.barcode) {
-              hasUndefinedValue = true;
-              return '';
-            }
-            result = metadata.barcode;
-            break;
-            
-          case 'caption':
-            if (!metadata.caption) {
-              hasUndefinedValue = true;
-              return '';
-            }
-            result = metadata.caption;
-            break;
-            
-          default:
-            // Try to access the property using bracket notation for custom metadata
-            const customValue = (metadata as any)[type];
-            if (customValue === undefined) {
-              hasUndefinedValue = true;
-              return '';
-            }
-            result = String(customValue);
-        }
-        
-        return result;
-      });
-      
-      // Return the processed text along with a flag indicating if it has undefined values
-      return { text: processedText, hasUndefinedValue };
-    })
-    // Filter out lines that have undefined values
-    .filter(item => !item.hasUndefinedValue)
-    // Extract just the text from the processed items
-    .map(item => item.text);
-};
-
-/**
- * Formats a date according to the specified format string
- * @param date The date to format
- * @param format Format string (e.g., 'YYYY-MM-DD', 'DD/MM/YYYY HH:mm:ss')
- * @returns Formatted date string
- */
-const formatDate = (date: Date, format: string): string => {
-  const tokens: Record<string, () => string> = {
-    'YYYY': () => date.getFullYear().toString(),
-    'YY': () => date.getFullYear().toString().slice(-2),
-    'MM': () => (date.getMonth() + 1).toString().padStart(2, '0'),
-    'M': () => (date.getMonth() + 1).toString(),
-    'DD': () => date.getDate().toString().padStart(2, '0'),
-    'D': () => date.getDate().toString(),
-    'HH': () => date.getHours().toString().padStart(2, '0'),
-    'H': () => date.getHours().toString(),
-    'hh': () => (date.getHours() % 12 || 12).toString().padStart(2, '0'),
-    'h': () => (date.getHours() % 12 || 12).toString(),
-    'mm': () => date.getMinutes().toString().padStart(2, '0'),
-    'm': () => date.getMinutes().toString(),
-    'ss': () => date.getSeconds().toString().padStart(2, '0'),
-    's': () => date.getSeconds().toString(),
-    'A': () => date.getHours() < 12 ? 'AM' : 'PM',
-    'a': () => date.getHours() < 12 ? 'am' : 'pm',
-  };
-
-  // Replace all tokens with their values
-  return Object.entries(tokens).reduce(
-      (result, [token, getValue]) => result.replace(new RegExp(token, 'g'), getValue()),
-      format
-  );
-};
-
-/**
- * Converts decimal coordinates to degrees, minutes, seconds format
- * @param coord The decimal coordinate
- * @param type 'lat' for latitude, 'lng' for longitude
- * @returns Formatted DMS string
- */
-const convertToDMS = (coord: number, type: 'lat' | 'lng'): string => {
-  const absolute = Math.abs(coord);
-  const degrees = Math.floor(absolute);
-  const minutesNotTruncated = (absolute - degrees) * 60;
-  const minutes = Math.floor(minutesNotTruncated);
-  const seconds = Math.floor((minutesNotTruncated - minutes) * 60);
-
-  const direction = type === 'lat'
-      ? (coord >= 0 ? 'N' : 'S')
-      : (coord >= 0 ? 'E' : 'W');
-
-  return `${degrees}° ${minutes}' ${seconds}" ${direction}`;
-};
\ No newline at end of file
@@ -0,0 +1,402 @@
+import type {CameraMode, CapturedPhoto, DraftSession, ImageConfig, PhotoMetadata, UploadItem} from "@/types";
+import {blobToDataUrl, getFileExtension} from "@/utils/photo";
+
+export const DEFAULT_DB_NAME = 'vue-camera-utility';
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+const PHOTOS = 'photos';
+const UPLOADS = 'uploads';
+
+interface StoredSession {
+  id: string
+  cameraMode: CameraMode
+  createdAt: string
+  updatedAt: string
+  order?: number[]        // Photo keys after the photos were reordered, capture order otherwise
+}
+
+interface StoredPhoto {
+  key?: number            // Auto-incremented, keeps the capture order
+  sessionId: string
+  image: Blob
+  name?: string           // File name with `output: 'blob'`
+  thumbnail?: Blob
+  original?: Blob         // Unedited image of an edited photo
+  metadata: PhotoMetadata
+}
+
+/**
+ * An unfinished upload with the file it sends
+ */
+export interface StoredUpload extends UploadItem {
+  file: Blob
+  createdAt: number       // Epoch ms, keeps the queue order
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+// Record keys of saved and loaded photos, to update them in place
+const photoKeys = new WeakMap<CapturedPhoto, number>();
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+/**
+ * Opens the database once per name, creating the stores on first use
+ */
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  const cached = databases.get(name);
+  if (cached) return cached;
+
+  const database = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 databases only have the draft stores
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(PHOTOS)) {
+        db.createObjectStore(PHOTOS, {keyPath: 'key', autoIncrement: true}).createIndex('sessionId', 'sessionId');
+      }
+      if (!db.objectStoreNames.contains(UPLOADS)) {
+        db.createObjectStore(UPLOADS, {keyPath: 'id'});
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrades or deletes the database
+      db.onversionchange = () => {
+        db.close();
+        databases.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  databases.set(name, database);
+  database.catch(() => databases.delete(name));
+  return database;
+};
+
+/**
+ * Creates a random id for draft sessions and uploads
+ */
+export const createId = (): string => typeof crypto?.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const fetchBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+/**
+ * Reads the blobs of a photo for storing
+ */
+const toStoredPhoto = async (sessionId: string, photo: CapturedPhoto): Promise<StoredPhoto> => ({
+  sessionId,
+  image: photo.file ?? await fetchBlob(photo.src),
+  name: photo.file?.name,
+  thumbnail: photo.thumbnail ? await fetchBlob(photo.thumbnail) : undefined,
+  original: photo.original ? photo.original.file ?? await fetchBlob(photo.original.src) : undefined,
+  metadata: photo.metadata,
+});
+
+/**
+ * Updates a session record inside a running transaction
+ */
+const touchSession = (
+    transaction: IDBTransaction,
+    sessionId: string,
+    update: (session: StoredSession) => Partial<StoredSession> = () => ({})
+) => {
+  const sessions = transaction.objectStore(SESSIONS);
+  const getSession = sessions.get(sessionId);
+  getSession.onsuccess = () => {
+    const session = getSession.result as StoredSession | undefined;
+    if (session) sessions.put({...session, ...update(session), updatedAt: new Date().toISOString()});
+  };
+};
+
+/**
+ * Stores a photo in a draft session, creating the session on the first photo
+ * @param sessionId Draft session id
+ * @param photo Captured photo, not a reactive proxy
+ * @param cameraMode Mode the session was captured in
+ * @param dbName IndexedDB database name
+ */
+export const saveDraftPhoto = async (
+    sessionId: string,
+    photo: CapturedPhoto,
+    cameraMode: CameraMode,
+    dbName = DEFAULT_DB_NAME
+): Promise<void> => {
+  const record = await toStoredPhoto(sessionId, photo);
+
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS], 'readwrite');
+  const done = transactionDone(transaction);
+  const now = new Date().toISOString();
+
+  const add = transaction.objectStore(PHOTOS).add(record);
+  add.onsuccess = () => {
+    const key = add.result as number;
+    photoKeys.set(photo, key);
+
+    const sessions = transaction.objectStore(SESSIONS);
+    const getSession = sessions.get(sessionId);
+    getSession.onsuccess = () => {
+      const session = getSession.result as StoredSession | undefined;
+      const updated: StoredSession = {
+        id: sessionId,
+        cameraMode,
+        createdAt: session?.createdAt ?? now,
+        updatedAt: now,
+        order: session?.order ? [...session.order, key] : undefined,
+      };
+      sessions.put(updated);
+    };
+  };
+
+  await done;
+};
+
+/**
+ * Replaces a stored photo with a changed version, e.g. after editing
+ * @param sessionId Draft session id
+ * @param previous Photo as it was saved or loaded, not a reactive proxy
+ * @param photo Changed photo, not a reactive proxy
+ * @param dbName IndexedDB database name
+ * @returns false when the previous photo was never stored
+ */
+export const updateDraftPhoto = async (
+    sessionId: string,
+    previous: CapturedPhoto,
+    photo: CapturedPhoto,
+    dbName = DEFAULT_DB_NAME
+): Promise<boolean> => {
+  const key = photoKeys.get(previous);
+  if (key === undefined) return false;
+
+  const record = {...await toStoredPhoto(sessionId, photo), key};
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS], 'readwrite');
+  const done = transactionDone(transaction);
+
+  touchSession(transaction, sessionId);
+  transaction.objectStore(PHOTOS).put(record);
+
+  await done;
+  photoKeys.set(photo, key);
+  return true;
+};
+
+/**
+ * Removes a photo from a draft session
+ * @param sessionId Draft session id
+ * @param photo Photo as it was saved or loaded, not a reactive proxy
+ * @param dbName IndexedDB database name
+ * @returns false when the photo was never stored
+ */
+export const deleteDraftPhoto = async (
+    sessionId: string,
+    photo: CapturedPhoto,
+    dbName = DEFAULT_DB_NAME
+): Promise<boolean> => {
+  const key = photoKeys.get(photo);
+  if (key === undefined) return false;
+
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS], 'readwrite');
+  const done = transactionDone(transaction);
+
+  touchSession(transaction, sessionId, (session) => ({order: session.order?.filter((item) => item !== key)}));
+  transaction.objectStore(PHOTOS).delete(key);
+
+  await done;
+  photoKeys.delete(photo);
+  return true;
+};
+
+/**
+ * Stores the order of the photos in a draft session
+ * @param sessionId Draft session id
+ * @param photos Every photo of the session in the new order, not reactive proxies
+ * @param dbName IndexedDB database name
+ */
+export const reorderDraftPhotos = async (
+    sessionId: string,
+    photos: CapturedPhoto[],
+    dbName = DEFAULT_DB_NAME
+): Promise<void> => {
+  const order = photos.map((photo) => photoKeys.get(photo)).filter((key): key is number => key !== undefined);
+
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction(SESSIONS, 'readwrite');
+  const done = transactionDone(transaction);
+  touchSession(transaction, sessionId, () => ({order}));
+  await done;
+};
+
+/**
+ * Loads the photos of a draft session in capture order
+ * @param sessionId Draft session id
+ * @param output Recreate data URLs, or files with object URLs that have to be released with `releasePhoto`
+ * @param dbName IndexedDB database name
+ * @returns The photos, empty when the session does not exist
+ */
+export const loadDraftSession = async (
+    sessionId: string,
+    output: ImageConfig['output'] = 'dataUrl',
+    dbName = DEFAULT_DB_NAME
+): Promise<CapturedPhoto[]> => {
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS]);
+  const [session, records] = await Promise.all([
+    promisify(transaction.objectStore(SESSIONS).get(sessionId)) as Promise<StoredSession | undefined>,
+    promisify(transaction.objectStore(PHOTOS).index('sessionId').getAll(sessionId)) as Promise<StoredPhoto[]>,
+  ]);
+
+  // Reordered photos first, photos without a position in capture order after them
+  const order = session?.order ?? [];
+  const position = (record: StoredPhoto) => {
+    const index = order.indexOf(record.key!);
+    return index === -1 ? order.length : index;
+  };
+  records.sort((a, b) => position(a) - position(b) || a.key! - b.key!);
+
+  return Promise.all(records.map(async (record): Promise<CapturedPhoto> => {
+    let photo: CapturedPhoto;
+    if (output === 'blob') {
+      const timestamp = record.metadata.timestamp;
+      const name = record.name ?? `photo-${timestamp.replace(/[:.]/g, '-')}.${getFileExtension(record.image.type)}`;
+      const toFile = (blob: Blob) => new File([blob], name, {type: blob.type, lastModified: Date.parse(timestamp) || Date.now()});
+      const file = toFile(record.image);
+      const original = record.original ? toFile(record.original) : undefined;
+      photo = {
+        src: URL.createObjectURL(file),
+        file,
+        thumbnail: record.thumbnail ? URL.createObjectURL(record.thumbnail) : undefined,
+        original: original ? {src: URL.createObjectURL(original), file: original} : undefined,
+        metadata: record.metadata,
+      };
+    } else {
+      photo = {
+        src: await blobToDataUrl(record.image),
+        thumbnail: record.thumbnail ? await blobToDataUrl(record.thumbnail) : undefined,
+        original: record.original ? {src: await blobToDataUrl(record.original)} : undefined,
+        metadata: record.metadata,
+      };
+    }
+    if (record.key !== undefined) photoKeys.set(photo, record.key);
+    return photo;
+  }));
+};
+
+/**
+ * Lists the stored draft sessions, most recently updated first
+ * @param dbName IndexedDB database name
+ */
+export const listDraftSessions = async (dbName = DEFAULT_DB_NAME): Promise<DraftSession[]> => {
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS]);
+  const done = transactionDone(transaction);
+  const index = transaction.objectStore(PHOTOS).index('sessionId');
+
+  const sessions: DraftSession[] = [];
+  const getSessions = transaction.objectStore(SESSIONS).getAll();
+  getSessions.onsuccess = () => {
+    for (const session of getSessions.result as StoredSession[]) {
+      const count = index.count(session.id);
+      const {id, cameraMode, createdAt, updatedAt} = session;
+      count.onsuccess = () => sessions.push({id, cameraMode, createdAt, updatedAt, photoCount: count.result});
+    }
+  };
+
+  await done;
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Deletes a draft session and its photos
+ * @param sessionId Draft session id
+ * @param dbName IndexedDB database name
+ */
+export const deleteDraftSession = async (sessionId: string, dbName = DEFAULT_DB_NAME): Promise<void> => {
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction([SESSIONS, PHOTOS], 'readwrite');
+  const done = transactionDone(transaction);
+
+  transaction.objectStore(SESSIONS).delete(sessionId);
+  const photos = transaction.objectStore(PHOTOS);
+  const cursor = photos.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    photos.delete(cursor.result.primaryKey);
+    cursor.result.continue();
+  };
+
+  await done;
+};
+
+/**
+ * Deletes draft sessions that were not updated for a while
+ * @param olderThan ms since the last saved photo, every session when omitted
+ * @param dbName IndexedDB database name
+ * @returns The number of deleted sessions
+ */
+export const purgeDraftSessions = async (olderThan?: number, dbName = DEFAULT_DB_NAME): Promise<number> => {
+  const cutoff = olderThan === undefined ? Infinity : Date.now() - olderThan;
+  const expired = (await listDraftSessions(dbName)).filter((session) => Date.parse(session.updatedAt) < cutoff);
+  for (const session of expired) {
+    await deleteDraftSession(session.id, dbName);
+  }
+  return expired.length;
+};
+
+/**
+ * Stores or updates an unfinished upload
+ * @param upload Upload item with its file, not a reactive proxy
+ * @param dbName IndexedDB database name
+ */
+export const saveUploadRecord = async (upload: StoredUpload, dbName = DEFAULT_DB_NAME): Promise<void> => {
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction(UPLOADS, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(UPLOADS).put(upload);
+  await done;
+};
+
+/**
+ * Loads the unfinished uploads in the order they were queued
+ * @param dbName IndexedDB database name
+ */
+export const loadUploadRecords = async (dbName = DEFAULT_DB_NAME): Promise<StoredUpload[]> => {
+  const db = await openDatabase(dbName);
+  const records = await promisify(db.transaction(UPLOADS).objectStore(UPLOADS).getAll());
+  return (records as StoredUpload[]).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Deletes a finished or removed upload
+ * @param id Upload id
+ * @param dbName IndexedDB database name
+ */
+export const deleteUploadRecord = async (id: string, dbName = DEFAULT_DB_NAME): Promise<void> => {
+  const db = await openDatabase(dbName);
+  const transaction = db.transaction(UPLOADS, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(UPLOADS).delete(id);
+  await done;
+};
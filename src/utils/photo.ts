@@ -0,0 +1,167 @@
+import type {CapturedMedia, CapturedPhoto, ImageConfig, PhotoMetadata} from "@/types";
+import {LOSSY_IMAGE_TYPES, resolveImageType} from "@/utils/encoder";
+import {embedPhotoMetadata} from "@/utils/exif";
+import {isCapturedVideo} from "@/utils/video";
+
+const DEFAULT_THUMBNAIL_SIZE = 320;
+const DEFAULT_THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Promise wrapper around canvas.toBlob
+ * @param canvas Canvas to encode
+ * @param type Image MIME type
+ * @param quality Encoder quality between 0.0 and 1.0 (lossy formats only)
+ */
+export const canvasToBlob = (
+    canvas: HTMLCanvasElement,
+    type: string,
+    quality?: number
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(`Could not encode canvas as ${type}`));
+      }
+    }, type, quality);
+  });
+};
+
+/**
+ * Draws a downscaled copy of the canvas, the longest side is at most `size` px
+ * @param canvas Source canvas
+ * @param size Maximum width or height in px
+ */
+export const createThumbnailCanvas = (canvas: HTMLCanvasElement, size: number): HTMLCanvasElement => {
+  const scale = Math.min(1, size / Math.max(canvas.width, canvas.height));
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.max(1, Math.round(canvas.width * scale));
+  thumbnail.height = Math.max(1, Math.round(canvas.height * scale));
+
+  const ctx = thumbnail.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail;
+};
+
+/**
+ * Reads a blob as a base64 data URL
+ * @param blob Blob to read
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * File extension for a MIME type, e.g. 'jpg' for 'image/jpeg'
+ * @param type MIME type, parameters such as codecs are ignored
+ */
+export const getFileExtension = (type: string): string => {
+  const subtype = type.split(';')[0].split('/')[1] || 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+};
+
+/**
+ * Encodes the (processed) canvas into a CapturedPhoto, as a data URL or as a File with object URLs.
+ * The image type is resolved against the fallback chain first, so unsupported types never end up as PNG.
+ * @param canvas Canvas holding the final image
+ * @param imgConfig Image configuration (output type, quality, thumbnail)
+ * @param metadata Metadata attached to the photo
+ */
+export const createCapturedPhoto = async (
+    canvas: HTMLCanvasElement,
+    imgConfig: ImageConfig | undefined,
+    metadata: PhotoMetadata
+): Promise<CapturedPhoto> => {
+  const imageType = await resolveImageType(imgConfig?.imageType ?? 'image/jpeg', imgConfig?.fallbackTypes);
+  const imageQuality = LOSSY_IMAGE_TYPES.includes(imageType) ? imgConfig?.imageQuality : undefined;
+
+  const thumbnailConfig = imgConfig?.thumbnail;
+  const thumbnailCanvas = thumbnailConfig === false
+      ? null
+      : createThumbnailCanvas(canvas, thumbnailConfig?.size ?? DEFAULT_THUMBNAIL_SIZE);
+  const thumbnailQuality = thumbnailConfig ? thumbnailConfig.quality : undefined;
+
+  // EXIF and XMP can only be embedded into JPEG
+  const embedMetadata = imgConfig?.embedMetadata && imageType === 'image/jpeg';
+
+  if (imgConfig?.output !== 'blob' && !embedMetadata) {
+    return {
+      src: canvas.toDataURL(imageType, imageQuality),
+      thumbnail: thumbnailCanvas?.toDataURL('image/jpeg', thumbnailQuality ?? DEFAULT_THUMBNAIL_QUALITY),
+      metadata,
+    };
+  }
+
+  let blob = await canvasToBlob(canvas, imageType, imageQuality);
+  if (embedMetadata) {
+    try {
+      blob = await embedPhotoMetadata(blob, metadata);
+    } catch (error) {
+      console.warn('Could not embed photo metadata:', error);
+    }
+  }
+
+  if (imgConfig?.output !== 'blob') {
+    return {
+      src: await blobToDataUrl(blob),
+      thumbnail: thumbnailCanvas?.toDataURL('image/jpeg', thumbnailQuality ?? DEFAULT_THUMBNAIL_QUALITY),
+      metadata,
+    };
+  }
+
+  const name = `photo-${metadata.timestamp.replace(/[:.]/g, '-')}.${getFileExtension(blob.type)}`;
+  const file = new File([blob], name, {type: blob.type, lastModified: Date.parse(metadata.timestamp) || Date.now()});
+
+  const thumbnail = thumbnailCanvas
+      ? URL.createObjectURL(await canvasToBlob(thumbnailCanvas, 'image/jpeg', thumbnailQuality ?? DEFAULT_THUMBNAIL_QUALITY))
+      : undefined;
+
+  return {
+    src: URL.createObjectURL(file),
+    file,
+    thumbnail,
+    metadata,
+  };
+};
+
+/**
+ * Rewrites the embedded EXIF/XMP metadata of a JPEG photo after its metadata changed, e.g. when a caption was added.
+ * The image data is not re-encoded.
+ * @param photo Captured photo
+ * @returns The updated photo, or the same photo when it is not a JPEG. The object URL of `photo.src` is not released.
+ */
+export const rewritePhotoMetadata = async (photo: CapturedPhoto): Promise<CapturedPhoto> => {
+  const source = photo.file ?? await (await fetch(photo.src)).blob();
+  if (source.type !== 'image/jpeg') return photo;
+
+  const blob = await embedPhotoMetadata(source, photo.metadata);
+  if (!photo.file) {
+    return {...photo, src: await blobToDataUrl(blob)};
+  }
+
+  const file = new File([blob], photo.file.name, {type: blob.type, lastModified: photo.file.lastModified});
+  return {...photo, src: URL.createObjectURL(file), file};
+};
+
+/**
+ * Revokes the object URLs of a photo created with `output: 'blob'` or of a video recording,
+ * call it once the photo or video is no longer displayed
+ * @param photo Captured photo or video
+ */
+export const releasePhoto = (photo: CapturedMedia): void => {
+  const urls = isCapturedVideo(photo) ? [photo.src, photo.poster] : [photo.src, photo.thumbnail, photo.original?.src];
+  for (const url of urls) {
+    if (url?.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
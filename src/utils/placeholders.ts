@@ -0,0 +1,299 @@
+import type {Address, CustomFieldValue, MetadataType, PhotoMetadata, PlaceholderFormatter, PlaceholderOptions} from "@/types";
+
+// Matches {{name}} and {{name:format}}
+const PLACEHOLDER_PATTERN = /\{\{([a-zA-Z0-9_-]+)(?::([^}]+))?\}\}/g;
+
+const registry = new Map<string, PlaceholderFormatter>();
+
+/**
+ * Registers a watermark placeholder, replacing any existing one (including built-ins) with the same name
+ * @param name Placeholder name used as {{name}} or {{name:format}}
+ * @param formatter Returns the text for a photo, undefined/null drops the whole line
+ * @returns Function that removes the placeholder again
+ */
+export const registerPlaceholder = (name: string, formatter: PlaceholderFormatter): (() => void) => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    throw new Error(`Invalid placeholder name: ${name}`);
+  }
+  registry.set(name, formatter);
+  return () => {
+    if (registry.get(name) === formatter) registry.delete(name);
+  };
+};
+
+/**
+ * Removes a registered placeholder
+ * @param name Placeholder name
+ */
+export const unregisterPlaceholder = (name: string): void => {
+  registry.delete(name);
+};
+
+// ========== Date Formatting ==========
+
+const DATE_STYLES = ['full', 'long', 'medium', 'short'] as const;
+type DateStyle = typeof DATE_STYLES[number];
+
+// Longest tokens first, so 'MMMM' wins over 'MM' and 'M'
+const DATE_TOKEN_PATTERN = /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|Z|z/g;
+
+/**
+ * Formats a date with Intl in the given locale and time zone
+ * @param date The date to format
+ * @param format A style ('short', 'medium', 'long', 'full', 'date:<style>', 'time:<style>'), 'iso', or a token string
+ * such as 'YYYY-MM-DD HH:mm:ss Z'. Text in square brackets is kept as is.
+ * @param options Locale and time zone
+ * @returns Formatted date string
+ */
+export const formatDate = (date: Date, format: string | undefined, options: PlaceholderOptions = {}): string => {
+  const {locale, timeZone} = options;
+
+  if (!format) {
+    return date.toLocaleString(locale, {timeZone});
+  }
+  if (format === 'iso') {
+    return date.toISOString();
+  }
+  if ((DATE_STYLES as readonly string[]).includes(format)) {
+    const style = format as DateStyle;
+    return new Intl.DateTimeFormat(locale, {dateStyle: style, timeStyle: style, timeZone}).format(date);
+  }
+  const styleMatch = format.match(/^(date|time):(full|long|medium|short)$/);
+  if (styleMatch) {
+    const style = styleMatch[2] as DateStyle;
+    const styleOptions = styleMatch[1] === 'date' ? {dateStyle: style} : {timeStyle: style};
+    return new Intl.DateTimeFormat(locale, {...styleOptions, timeZone}).format(date);
+  }
+
+  // Read every calendar field in the target time zone
+  const parts = (formatOptions: Intl.DateTimeFormatOptions) =>
+      Object.fromEntries(new Intl.DateTimeFormat(locale ?? 'en-US', {...formatOptions, timeZone})
+          .formatToParts(date)
+          .map((part) => [part.type, part.value]));
+
+  // Digits are read in en-US, locales with other numbering systems would break the arithmetic
+  const latin = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23', timeZone,
+  }).formatToParts(date).map((part) => [part.type, Number(part.value)]));
+
+  const hours = latin.hour % 24;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const offset = () => {
+    const zoned = Date.UTC(latin.year, latin.month - 1, latin.day, hours, latin.minute, latin.second);
+    const minutes = Math.round((zoned - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+    const sign = minutes >= 0 ? '+' : '-';
+    return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+  };
+
+  const tokens: Record<string, () => string> = {
+    'YYYY': () => String(latin.year),
+    'YY': () => String(latin.year).slice(-2),
+    'MMMM': () => parts({month: 'long'}).month,
+    'MMM': () => parts({month: 'short'}).month,
+    'MM': () => pad(latin.month),
+    'M': () => String(latin.month),
+    'DD': () => pad(latin.day),
+    'D': () => String(latin.day),
+    'dddd': () => parts({weekday: 'long'}).weekday,
+    'ddd': () => parts({weekday: 'short'}).weekday,
+    'HH': () => pad(hours),
+    'H': () => String(hours),
+    'hh': () => pad(hours % 12 || 12),
+    'h': () => String(hours % 12 || 12),
+    'mm': () => pad(latin.minute),
+    'm': () => String(latin.minute),
+    'ss': () => pad(latin.second),
+    's': () => String(latin.second),
+    'SSS': () => pad(date.getMilliseconds(), 3),
+    'A': () => hours < 12 ? 'AM' : 'PM',
+    'a': () => hours < 12 ? 'am' : 'pm',
+    'Z': offset,
+    'z': () => parts({timeZoneName: 'short'}).timeZoneName ?? offset(),
+  };
+
+  // Single pass, so replaced values are never matched again
+  return format.replace(DATE_TOKEN_PATTERN, (token, literal?: string) =>
+      literal !== undefined ? literal : tokens[token]());
+};
+
+/**
+ * Splits a per-placeholder time zone from the format, e.g. 'HH:mm|Asia/Tokyo'
+ */
+const splitTimeZone = (format: string | undefined, options: PlaceholderOptions): [string | undefined, PlaceholderOptions] => {
+  if (!format?.includes('|')) return [format, options];
+  const index = format.lastIndexOf('|');
+  return [format.slice(0, index) || undefined, {...options, timeZone: format.slice(index + 1)}];
+};
+
+// ========== Built-in Placeholders ==========
+
+/**
+ * Converts decimal coordinates to degrees, minutes, seconds format
+ * @param coord The decimal coordinate
+ * @param type 'lat' for latitude, 'lng' for longitude
+ * @returns Formatted DMS string
+ */
+const convertToDMS = (coord: number, type: 'lat' | 'lng'): string => {
+  const absolute = Math.abs(coord);
+  const degrees = Math.floor(absolute);
+  const minutesNotTruncated = (absolute - degrees) * 60;
+  const minutes = Math.floor(minutesNotTruncated);
+  const seconds = Math.floor((minutesNotTruncated - minutes) * 60);
+
+  const direction = type === 'lat'
+      ? (coord >= 0 ? 'N' : 'S')
+      : (coord >= 0 ? 'E' : 'W');
+
+  return `${degrees}° ${minutes}' ${seconds}" ${direction}`;
+};
+
+/**
+ * Applies simple formats to custom values: upper, lower, capitalize, number and fixed:N (numbers), date formats (dates)
+ */
+const formatValue = (value: CustomFieldValue, format: string | undefined, options: PlaceholderOptions): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  if (value instanceof Date) {
+    const [dateFormat, dateOptions] = splitTimeZone(format, options);
+    return formatDate(value, dateFormat, dateOptions);
+  }
+  if (typeof value === 'number' && format?.startsWith('fixed')) {
+    return value.toFixed(parseInt(format.split(':')[1]) || 0);
+  }
+  if (typeof value === 'number' && format === 'number') {
+    return new Intl.NumberFormat(options.locale).format(value);
+  }
+
+  const text = String(value);
+  switch (format) {
+    case 'upper':
+      return text.toLocaleUpperCase(options.locale);
+    case 'lower':
+      return text.toLocaleLowerCase(options.locale);
+    case 'capitalize':
+      return text.charAt(0).toLocaleUpperCase(options.locale) + text.slice(1);
+    default:
+      return text;
+  }
+};
+
+const builtInPlaceholders: Record<MetadataType, PlaceholderFormatter> = {
+  timestamp: (metadata, format, options) => {
+    if (!metadata.timestamp) return undefined;
+    const [dateFormat, dateOptions] = splitTimeZone(format, options);
+    try {
+      return formatDate(new Date(metadata.timestamp), dateFormat, dateOptions);
+    } catch (e) {
+      console.warn('Error formatting timestamp:', e);
+      return metadata.timestamp;
+    }
+  },
+
+  coordinate: (metadata, format) => {
+    const lat = metadata.coordinate?.latitude;
+    const lng = metadata.coordinate?.longitude;
+    if (lat === undefined || lng === undefined) return undefined;
+
+    if (format === 'dms') {
+      // Degrees, minutes, seconds format
+      return `${convertToDMS(lat, 'lat')}, ${convertToDMS(lng, 'lng')}`;
+    }
+    if (format?.includes('precision')) {
+      // Custom precision format
+      const precision = parseInt(format.split(':')[1]) || 6;
+      return `${lat.toFixed(precision)}, ${lng.toFixed(precision)}`;
+    }
+    // Default decimal format
+    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  },
+
+  accuracy: (metadata) => {
+    const accuracy = metadata.coordinate?.accuracy;
+    return accuracy === undefined ? undefined : `±${Math.round(accuracy)} m`;
+  },
+
+  // {{address}} renders the formatted address, {{address:city}} a single component
+  address: (metadata, format) => {
+    if (!metadata.address) return undefined;
+    if (!format) return metadata.address.formatted;
+    return metadata.address[format as keyof Address];
+  },
+
+  // {{geofence}} renders a summary, {{geofence:status}} 'inside' or 'outside', {{geofence:distance}} the distance
+  geofence: (metadata, format) => {
+    const geofence = metadata.geofence;
+    if (!geofence) return undefined;
+
+    const distance = `${Math.round(geofence.distanceMeters)} m`;
+    switch (format) {
+      case 'status':
+        return geofence.inside ? 'inside' : 'outside';
+      case 'distance':
+        return distance;
+      default:
+        return geofence.inside ? 'Inside geofence' : `Outside geofence (${distance})`;
+    }
+  },
+
+  barcode: (metadata, format, options) => formatValue(metadata.barcode || undefined, format, options),
+
+  caption: (metadata, format, options) => formatValue(metadata.caption || undefined, format, options),
+};
+
+Object.entries(builtInPlaceholders).forEach(([name, formatter]) => registry.set(name, formatter));
+
+/**
+ * Resolves a single placeholder: registered formatters first, then `customFields`, then plain metadata fields
+ */
+const resolvePlaceholder = async (
+    name: string,
+    format: string | undefined,
+    metadata: PhotoMetadata,
+    options: PlaceholderOptions
+): Promise<string | undefined> => {
+  const formatter = registry.get(name);
+  if (formatter) {
+    const value = await formatter(metadata, format, options);
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
+  if (metadata.customFields && name in metadata.customFields) {
+    return formatValue(metadata.customFields[name], format, options);
+  }
+
+  const value = metadata[name as keyof PhotoMetadata];
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return formatValue(value, format, options);
+  }
+  return undefined;
+};
+
+/**
+ * Injects actual metadata values into watermark text strings
+ * @param textArray Array of text strings that may contain metadata placeholders
+ * @param metadata Photo metadata to inject
+ * @param options Locale and time zone used by the formatters
+ * @returns Text array with metadata placeholders replaced with actual values, filtering out lines with undefined values
+ */
+export const injectMetadataInfo = async (
+    textArray: string[],
+    metadata?: PhotoMetadata,
+    options: PlaceholderOptions = {}
+): Promise<string[]> => {
+  if (!metadata) return textArray;
+
+  const lines = await Promise.all(textArray.map(async (text) => {
+    const matches = [...text.matchAll(PLACEHOLDER_PATTERN)];
+    const values = await Promise.all(matches.map(([, name, format]) =>
+        resolvePlaceholder(name, format, metadata, options)));
+
+    // Lines referencing missing values are dropped
+    if (values.some((value) => value === undefined)) return undefined;
+
+    let index = 0;
+    return text.replace(PLACEHOLDER_PATTERN, () => values[index++]!);
+  }));
+
+  return lines.filter((line): line is string => line !== undefined);
+};
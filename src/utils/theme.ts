@@ -0,0 +1,21 @@
+import type {ThemeColors, ThemeConfig} from "@/types";
+
+// surfaceForeground -> --vcu-color-surface-foreground
+const toColorProperty = (name: string) => `--vcu-color-${name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+
+/**
+ * Turns a theme into the CSS custom properties read by the component styles.
+ * Properties that are not set keep the values of the theme mode from the stylesheet.
+ * @param theme Theme configuration
+ * @returns Inline style with the `--vcu-*` properties
+ */
+export const getThemeStyle = (theme: ThemeConfig = {}): Record<string, string> => {
+  const style: Record<string, string> = {};
+  for (const [name, value] of Object.entries(theme.colors ?? {}) as [keyof ThemeColors, string | undefined][]) {
+    if (value) style[toColorProperty(name)] = value;
+  }
+  if (theme.radius) style['--vcu-radius-control'] = theme.radius;
+  if (theme.panelRadius) style['--vcu-radius-panel'] = theme.panelRadius;
+  if (theme.fontFamily) style['--vcu-font-body'] = theme.fontFamily;
+  return style;
+};
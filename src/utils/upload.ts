@@ -0,0 +1,181 @@
+import type {
+  CapturedMedia,
+  RetryConfig,
+  UploadConfig,
+  UploadItem,
+  UploadRequest,
+  UploadResponse,
+  UploadTransport
+} from "@/types";
+import {UploadFailedError} from "@/utils/errors";
+import {getFileExtension} from "@/utils/photo";
+import {isCapturedVideo} from "@/utils/video";
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 60000;
+const DEFAULT_FIELD_NAME = 'file';
+const DEFAULT_METADATA_FIELD = 'metadata';
+
+const parseResponseBody = (text: string): unknown => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Default transport, sends the request with XMLHttpRequest because fetch reports no upload progress
+ * @param request Upload request
+ * @returns The response, status 0 when the network failed
+ */
+export const xhrTransport: UploadTransport = (request: UploadRequest): Promise<UploadResponse> => new Promise((resolve, reject) => {
+  if (request.signal.aborted) {
+    reject(new DOMException('Upload aborted', 'AbortError'));
+    return;
+  }
+
+  const xhr = new XMLHttpRequest();
+  xhr.open(request.method, request.url);
+  for (const [name, value] of Object.entries(request.headers)) {
+    xhr.setRequestHeader(name, value);
+  }
+
+  xhr.upload.onprogress = (event) => request.onProgress(event.loaded, event.lengthComputable ? event.total : 0);
+  xhr.onload = () => resolve({status: xhr.status, body: parseResponseBody(xhr.responseText)});
+  xhr.onerror = () => resolve({status: 0});
+  xhr.ontimeout = () => resolve({status: 0});
+  xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+  request.signal.addEventListener('abort', () => xhr.abort(), {once: true});
+
+  xhr.send(request.body);
+});
+
+/**
+ * Network failures, timeouts, rate limits and server errors are worth retrying, other statuses are final
+ * @param status HTTP status, 0 when the request never reached the server
+ */
+export const isRetryableStatus = (status: number): boolean =>
+    status === 0 || status === 408 || status === 425 || status === 429 || status >= 500;
+
+/**
+ * Exponential backoff with jitter, so devices coming back online do not retry in lockstep
+ * @param attempt Number of the failed attempt, starting at 1
+ * @param retry Retry settings
+ * @returns ms to wait before the next attempt
+ */
+export const getRetryDelay = (attempt: number, retry: RetryConfig = {}): number => {
+  const baseDelay = retry.baseDelay ?? DEFAULT_BASE_DELAY;
+  const maxDelay = retry.maxDelay ?? DEFAULT_MAX_DELAY;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+};
+
+/**
+ * Reads the file of a photo or video, data URLs and object URLs included
+ * @param media Captured photo or video
+ */
+export const getUploadFile = async (media: CapturedMedia): Promise<Blob> =>
+    media.file ?? await (await fetch(media.src)).blob();
+
+/**
+ * File name sent to the server, the name of the captured file or one derived from the timestamp
+ * @param media Captured photo or video
+ * @param type MIME type of the file
+ */
+export const getUploadName = (media: CapturedMedia, type: string): string => {
+  if (media.file?.name) return media.file.name;
+  const prefix = isCapturedVideo(media) ? 'video' : 'photo';
+  return `${prefix}-${media.metadata.timestamp.replace(/[:.]/g, '-')}.${getFileExtension(type)}`;
+};
+
+const resolveHeaders = async (config: UploadConfig): Promise<Record<string, string>> =>
+    typeof config.headers === 'function' ? {...await config.headers()} : {...config.headers};
+
+/**
+ * Sends one request and turns unsuccessful responses into errors
+ */
+const send = async (
+    config: UploadConfig,
+    headers: Record<string, string>,
+    body: FormData | Blob,
+    signal: AbortSignal,
+    onProgress: (loaded: number, total: number) => void
+): Promise<UploadResponse> => {
+  const transport = config.transport ?? xhrTransport;
+  let response: UploadResponse;
+  try {
+    response = await transport({url: config.endpoint, method: config.method ?? 'POST', headers, body, signal, onProgress});
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new UploadFailedError('Network error during upload.', error, 0, true);
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    const message = response.status === 0 ? 'Network error during upload.' : `Upload failed with status ${response.status}.`;
+    throw new UploadFailedError(message, response.body, response.status, isRetryableStatus(response.status));
+  }
+  return response;
+};
+
+/**
+ * Uploads the file of a queue item, as one multipart body or in chunks.
+ * Chunks are multipart bodies too, with `Content-Range: bytes start-end/size` and `X-Upload-Id` headers,
+ * the metadata field is sent with the last chunk. Every 2xx response confirms a chunk.
+ * @param item Queue item, chunked uploads resume from `uploadedBytes`
+ * @param file File to send
+ * @param config Upload configuration
+ * @param signal Aborts the running request
+ * @param onProgress Called with the bytes sent so far, `confirmed` once the server accepted a chunk
+ * @returns The response of the last request, a bodiless 200 when every chunk was confirmed before
+ */
+export const sendUpload = async (
+    item: UploadItem,
+    file: Blob,
+    config: UploadConfig,
+    signal: AbortSignal,
+    onProgress: (bytes: number, confirmed: boolean) => void
+): Promise<UploadResponse> => {
+  const fieldName = config.fieldName ?? DEFAULT_FIELD_NAME;
+  const metadataField = config.metadataField ?? DEFAULT_METADATA_FIELD;
+  const chunkSize = config.chunkSize && config.chunkSize > 0 ? config.chunkSize : Infinity;
+
+  const createBody = (content: Blob, last: boolean): FormData => {
+    const body = new FormData();
+    body.append(fieldName, content, item.name);
+    if (last && metadataField !== false) {
+      body.append(metadataField, JSON.stringify(item.metadata));
+    }
+    return body;
+  };
+
+  // Small files and disabled chunking go in one request
+  if (file.size <= chunkSize) {
+    const headers = await resolveHeaders(config);
+    return send(config, headers, createBody(file, true), signal, (loaded, total) => {
+      onProgress(total > 0 ? file.size * Math.min(1, loaded / total) : 0, false);
+    });
+  }
+
+  // Chunks confirmed before a reload are not sent again, a fully confirmed file is done
+  let start = item.uploadedBytes;
+  let response: UploadResponse = {status: 200};
+  while (start < file.size) {
+    const end = Math.min(file.size, start + chunkSize);
+    const chunk = file.slice(start, end);
+    const headers = await resolveHeaders(config);
+    headers['Content-Range'] = `bytes ${start}-${end - 1}/${file.size}`;
+    headers['X-Upload-Id'] = item.id;
+
+    const offset = start;
+    response = await send(config, headers, createBody(chunk, end === file.size), signal, (loaded, total) => {
+      onProgress(offset + (total > 0 ? chunk.size * Math.min(1, loaded / total) : 0), false);
+    });
+    start = end;
+    onProgress(start, true);
+  }
+
+  return response;
+};
@@ -0,0 +1,172 @@
+import type {CapturedMedia, CapturedVideo, PhotoMetadata, VideoConfig} from "@/types";
+import {ProcessingFailedError} from "@/utils/errors";
+
+const DEFAULT_VIDEO_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+const DEFAULT_TIMESLICE = 1000;
+export const DEFAULT_POSTER_SIZE = 640;
+export const DEFAULT_POSTER_QUALITY = 0.8;
+
+/**
+ * Checks whether a captured item is a video recording
+ * @param media Captured photo or video
+ */
+export const isCapturedVideo = (media: CapturedMedia): media is CapturedVideo => 'duration' in media;
+
+/**
+ * Picks the first recording type supported by this browser
+ * @param preferred Type tried before the defaults
+ * @returns The MIME type, undefined when MediaRecorder is unavailable or supports none of them
+ */
+export const getSupportedVideoType = (preferred?: string): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return [...(preferred ? [preferred] : []), ...DEFAULT_VIDEO_TYPES]
+      .find((type) => MediaRecorder.isTypeSupported(type));
+};
+
+export interface VideoRecorder {
+  start: () => void
+  pause: () => void
+  resume: () => void
+  stop: () => Promise<Blob>
+  cancel: () => void
+  getState: () => RecordingState
+  getDuration: () => number
+}
+
+/**
+ * Records a media stream with MediaRecorder, keeping track of the duration and size limits
+ * @param stream Stream to record, including audio tracks when wanted
+ * @param config Video configuration
+ * @param onLimitReached Called once when `maxDuration` or `maxSize` is reached, the caller should stop the recorder
+ */
+export const createVideoRecorder = (
+    stream: MediaStream,
+    config: VideoConfig = {},
+    onLimitReached?: () => void
+): VideoRecorder => {
+  const mimeType = getSupportedVideoType(config.mimeType);
+  if (!mimeType) {
+    throw new ProcessingFailedError('Video recording is not supported by this browser.');
+  }
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: config.videoBitsPerSecond,
+    audioBitsPerSecond: config.audioBitsPerSecond,
+  });
+
+  const chunks: Blob[] = [];
+  let size = 0;
+  let lastChunkSize = 0;
+  let limitReached = false;
+
+  // Duration excluding pauses
+  let recordedTime = 0;
+  let resumedAt: number | null = null;
+  let limitTimer: number | null = null;
+
+  const getDuration = () => recordedTime + (resumedAt !== null ? performance.now() - resumedAt : 0);
+
+  const reachLimit = () => {
+    if (limitReached) return;
+    limitReached = true;
+    onLimitReached?.();
+  };
+
+  const scheduleDurationLimit = () => {
+    if (!config.maxDuration) return;
+    limitTimer = window.setTimeout(reachLimit, Math.max(0, config.maxDuration - getDuration()));
+  };
+
+  const clearDurationLimit = () => {
+    if (limitTimer !== null) clearTimeout(limitTimer);
+    limitTimer = null;
+  };
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size === 0) return;
+    chunks.push(event.data);
+    size += event.data.size;
+    lastChunkSize = event.data.size;
+
+    // Stop before the next chunk of about the same size would exceed the limit
+    if (config.maxSize && size + lastChunkSize > config.maxSize) {
+      reachLimit();
+    }
+  };
+
+  return {
+    start: () => {
+      recorder.start(config.timeslice ?? DEFAULT_TIMESLICE);
+      resumedAt = performance.now();
+      scheduleDurationLimit();
+    },
+    pause: () => {
+      if (recorder.state !== 'recording') return;
+      recorder.pause();
+      recordedTime = getDuration();
+      resumedAt = null;
+      clearDurationLimit();
+    },
+    resume: () => {
+      if (recorder.state !== 'paused') return;
+      recorder.resume();
+      resumedAt = performance.now();
+      scheduleDurationLimit();
+    },
+    stop: () => new Promise<Blob>((resolve, reject) => {
+      clearDurationLimit();
+      recordedTime = getDuration();
+      resumedAt = null;
+
+      if (recorder.state === 'inactive') {
+        resolve(new Blob(chunks, {type: mimeType}));
+        return;
+      }
+      recorder.onstop = () => resolve(new Blob(chunks, {type: recorder.mimeType || mimeType}));
+      recorder.onerror = (event) => reject(new ProcessingFailedError('Video recording failed.', event));
+      recorder.stop();
+    }),
+    cancel: () => {
+      clearDurationLimit();
+      resumedAt = null;
+      recorder.ondataavailable = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      chunks.length = 0;
+    },
+    getState: () => recorder.state,
+    getDuration,
+  };
+};
+
+const getVideoExtension = (type: string): string => type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+/**
+ * Wraps a finished recording into a CapturedVideo with an object URL
+ * @param blob Recorded video
+ * @param duration Recorded time in ms
+ * @param metadata Metadata from the start of the recording
+ * @param poster Poster frame data URL (optional)
+ */
+export const createCapturedVideo = (
+    blob: Blob,
+    duration: number,
+    metadata: PhotoMetadata,
+    poster?: string
+): CapturedVideo => {
+  const name = `video-${metadata.timestamp.replace(/[:.]/g, '-')}.${getVideoExtension(blob.type)}`;
+  const file = new File([blob], name, {type: blob.type, lastModified: Date.parse(metadata.timestamp) || Date.now()});
+
+  return {
+    src: URL.createObjectURL(file),
+    file,
+    poster,
+    duration: Math.round(duration),
+    metadata,
+  };
+};
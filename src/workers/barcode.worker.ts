@@ -0,0 +1,41 @@
+import 'barcode-detector';
+import type {BarcodeResult, Point} from "@/types";
+import {toBarcodeResult} from "@/utils/barcode-result";
+
+export type BarcodeWorkerRequest =
+    | { type: 'init', formats: BarcodeFormat[] }
+    | { type: 'detect', id: number, bitmap: ImageBitmap, offset: Point }
+
+export type BarcodeWorkerResponse =
+    | { id: number, barcodes: BarcodeResult[] }
+    | { id: number, error: string }
+
+// The DOM lib types `self` as Window, only the worker scope members used here are declared
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<BarcodeWorkerRequest>) => void) | null
+  postMessage(message: BarcodeWorkerResponse): void
+}
+
+let detector: BarcodeDetector | null = null;
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    detector = new BarcodeDetector({formats: request.formats});
+    return;
+  }
+
+  const {id, bitmap, offset} = request;
+  try {
+    if (!detector) throw new Error('Barcode worker used before initialization');
+
+    const barcodes = await detector.detect(bitmap);
+    scope.postMessage({id, barcodes: barcodes.map((barcode) => toBarcodeResult(barcode, offset))});
+  } catch (err) {
+    scope.postMessage({id, error: err instanceof Error ? err.message : String(err)});
+  } finally {
+    // Transferred bitmaps are owned by the worker
+    bitmap.close();
+  }
+};